@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { ChangeStream } from './ChangeStream';
+import { ChangeEvent } from './types';
+
+function changeOf(after: any, before: any = null): ChangeEvent {
+  return {
+    type: before ? 'update' : 'insert',
+    table: 'users',
+    documentId: (after ?? before)._id,
+    before,
+    after,
+    source: 'local',
+    timestamp: Date.now(),
+  };
+}
+
+describe('ChangeStream', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('delivers matching events to listeners and iterators', async () => {
+    const stream = new ChangeStream({ age: { $gte: 18 } }, 'users', () => undefined);
+    const received: ChangeEvent[] = [];
+    stream.on('change', event => received.push(event));
+
+    const next = stream.next();
+    stream.push(changeOf({ _id: 'a', _table: 'users', age: 12 }));
+    stream.push(changeOf({ _id: 'b', _table: 'users', age: 30 }));
+
+    expect((await next).value.documentId).toBe('b');
+    expect(received.map(event => event.documentId)).toEqual(['b']);
+  });
+
+  it('reports an update that leaves the filter', () => {
+    const stream = new ChangeStream({ age: { $gte: 18 } }, undefined, () => undefined);
+    const received: ChangeEvent[] = [];
+    stream.on('change', event => received.push(event));
+
+    stream.push(changeOf({ _id: 'a', _table: 'users', age: 12 }, { _id: 'a', _table: 'users', age: 20 }));
+
+    expect(received).toHaveLength(1);
+  });
+
+  it('emits an error and closes when the filter throws', async () => {
+    const onClose = jest.fn();
+    const stream = new ChangeStream({ age: { $near: 1 } } as any, undefined, onClose);
+    const errors: unknown[] = [];
+    stream.on('error', error => errors.push(error));
+    const next = stream.next();
+
+    expect(() => stream.push(changeOf({ _id: 'a', _table: 'users', age: 1 }))).not.toThrow();
+
+    expect(errors).toHaveLength(1);
+    expect(stream.isClosed()).toBe(true);
+    expect(onClose).toHaveBeenCalledWith(stream);
+    expect((await next).done).toBe(true);
+  });
+
+  it('logs a throwing filter when nobody listens for errors', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const stream = new ChangeStream({ age: { $near: 1 } } as any, undefined, () => undefined);
+
+    stream.push(changeOf({ _id: 'a', _table: 'users', age: 1 }));
+
+    expect(warn).toHaveBeenCalled();
+    expect(stream.isClosed()).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { EventEmitter } from 'events';
+import { ChangeEvent, Document, QueryFilter } from './types';
+import { matchesFilter } from './utils';
+
+/**
+ * Changes to documents, as returned by `watch()`. Listen for `'change'`
+ * events, or iterate with `for await`; events are buffered for the iterator
+ * once iteration has started. An update matches the filter if the document
+ * matched it before or after the change. If the filter throws on a document,
+ * the stream emits `'error'` (or logs it, without a listener) and closes.
+ */
+export class ChangeStream<T = Document> extends EventEmitter implements AsyncIterableIterator<ChangeEvent<T>> {
+  private closed: boolean = false;
+  private iterating: boolean = false;
+  private buffer: ChangeEvent<T>[] = [];
+  private waiting: ((result: IteratorResult<ChangeEvent<T>>) => void) | null = null;
+
+  constructor(
+    private filter: QueryFilter,
+    private table: string | undefined,
+    private onClose: (stream: ChangeStream<T>) => void
+  ) {
+    super();
+  }
+
+  /** Deliver an event if it matches; called by TelegramDB */
+  push(event: ChangeEvent<T>): void {
+    if (this.closed || (this.table !== undefined && event.table !== this.table)) {
+      return;
+    }
+    const matches = (doc: T | null) => doc !== null && matchesFilter(doc as unknown as Document, this.filter);
+    try {
+      if (!matches(event.before) && !matches(event.after)) {
+        return;
+      }
+    } catch (err) {
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', err);
+      } else {
+        console.warn('Change stream filter failed, closing the stream:', err);
+      }
+      this.close();
+      return;
+    }
+
+    try {
+      this.emit('change', event);
+    } catch (err) {
+      console.warn('Change listener failed:', err);
+    }
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: event, done: false });
+    } else if (this.iterating) {
+      this.buffer.push(event);
+    }
+  }
+
+  /** Stop receiving events and end any `for await` loop */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.buffer = [];
+    if (this.waiting) {
+      this.waiting({ value: undefined, done: true });
+      this.waiting = null;
+    }
+    this.onClose(this);
+    this.emit('close');
+    this.removeAllListeners();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  next(): Promise<IteratorResult<ChangeEvent<T>>> {
+    this.iterating = true;
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+
+  /** Called when a `for await` loop exits early */
+  return(): Promise<IteratorResult<ChangeEvent<T>>> {
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): this {
+    this.iterating = true;
+    return this;
+  }
+}
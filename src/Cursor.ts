@@ -0,0 +1,71 @@
+import { TelegramDB } from './TelegramDB';
+import { Document, QueryFilter, FindOptions, SortSpec, Projection } from './types';
+
+/**
+ * Chainable query returned by TableHandler.find. Nothing runs until the cursor
+ * is awaited (or toArray() is called), so `await users.find({})` still works,
+ * as do `then`, `catch` and `finally`. Each of them runs the query again.
+ */
+export class Cursor<T = Document> implements PromiseLike<T[]> {
+  private options: FindOptions;
+
+  constructor(
+    private db: TelegramDB,
+    private tableName: string,
+    private filter: QueryFilter = {},
+    options: FindOptions = {}
+  ) {
+    this.options = { ...options };
+  }
+
+  sort(sort: SortSpec): this {
+    this.options.sort = { ...this.options.sort, ...sort };
+    return this;
+  }
+
+  skip(count: number): this {
+    this.options.skip = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.options.limit = count;
+    return this;
+  }
+
+  project(projection: Projection): this {
+    this.options.projection = projection;
+    return this;
+  }
+
+  /** Match the documents as they were at `time`; needs the table's `history` option */
+  asOf(time: number | string | Date): this {
+    this.options.asOf = time;
+    return this;
+  }
+
+  async toArray(): Promise<T[]> {
+    return this.db.find(this.filter, this.tableName, this.options) as Promise<T[]>;
+  }
+
+  async first(): Promise<T | null> {
+    return this.db.findOne(this.filter, this.tableName, this.options) as Promise<T | null>;
+  }
+
+  then<TResult1 = T[], TResult2 = never>(
+    onfulfilled?: ((value: T[]) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.toArray().then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T[] | TResult> {
+    return this.toArray().catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<T[]> {
+    return this.toArray().finally(onfinally);
+  }
+}
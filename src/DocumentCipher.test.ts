@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { randomBytes } from 'crypto';
+import { DocumentCipher, deriveKey } from './DocumentCipher';
+
+const SALT = 'tg-db:-100123';
+
+describe('DocumentCipher', () => {
+  it('derives keys from passphrases and checks raw key length', () => {
+    expect(deriveKey('secret', SALT)).toHaveLength(32);
+    expect(deriveKey('secret', SALT)).toEqual(deriveKey('secret', SALT));
+    expect(deriveKey('secret', SALT)).not.toEqual(deriveKey('secret', 'other'));
+    expect(() => deriveKey('', SALT)).toThrow('must not be empty');
+    expect(() => deriveKey(randomBytes(16), SALT)).toThrow('must be 32 bytes, got 16');
+  });
+
+  it('round-trips data and rejects tampering, other keys and other contexts', () => {
+    const cipher = new DocumentCipher({ key: 'secret' }, SALT);
+    const data = cipher.encryptBytes(Buffer.from('hello'), 'users/a');
+
+    expect(cipher.decryptBytes(data, 'users/a').toString()).toBe('hello');
+    expect(() => cipher.decryptBytes(data, 'users/b')).toThrow();
+
+    const tampered = Buffer.from(data);
+    tampered[tampered.length - 1] ^= 1;
+    expect(() => cipher.decryptBytes(tampered, 'users/a')).toThrow();
+    expect(() => new DocumentCipher({ key: 'other' }, SALT).decryptBytes(data, 'users/a'))
+      .toThrow('Data is encrypted with an unknown key');
+    expect(() => cipher.decryptBytes(data.subarray(0, 10))).toThrow('truncated');
+  });
+
+  it('reads data written with a previous key after rotating', () => {
+    const old = new DocumentCipher({ key: 'old' }, SALT);
+    const rotated = new DocumentCipher({ key: 'new', previousKeys: ['old'] }, SALT);
+
+    expect(rotated.decryptBytes(old.encryptBytes(Buffer.from('kept'))).toString()).toBe('kept');
+  });
+
+  it('encrypts only the configured fields, bound to their document', () => {
+    const cipher = new DocumentCipher({ key: 'secret', fields: ['ssn', 'card.number'] }, SALT);
+    const doc = { _id: 'a', _table: 'users', name: 'Ann', ssn: '123', card: { number: '4111', expires: '12/30' } };
+
+    const encrypted = cipher.encryptFields(doc);
+
+    expect(encrypted).toMatchObject({ name: 'Ann', ssn: { $enc: expect.any(String) }, card: { expires: '12/30' } });
+    expect(JSON.stringify(encrypted)).not.toContain('4111');
+    expect(cipher.decryptFields(encrypted)).toEqual(doc);
+    expect(() => cipher.decryptFields({ ...encrypted, _id: 'b' })).toThrow();
+    expect(() => cipher.decryptFields(doc)).toThrow('Field ssn is not encrypted');
+    expect(new DocumentCipher({ key: 'secret', fields: ['ssn'], allowPlaintext: true }, SALT).decryptFields(doc)).toEqual(doc);
+  });
+
+  it('refuses to encrypt _id and _table', () => {
+    expect(() => new DocumentCipher({ key: 'secret', fields: ['_id'] }, SALT)).toThrow("_id can't be encrypted");
+  });
+});
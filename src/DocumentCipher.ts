@@ -0,0 +1,177 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import { Document, EncryptionKey, EncryptionOptions } from './types';
+
+const KEY_LENGTH = 32;
+const KEY_ID_LENGTH = 4;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Turn a raw key or a passphrase into a 32-byte AES key */
+export function deriveKey(key: EncryptionKey, salt: string): Buffer {
+  if (typeof key === 'string') {
+    if (key.length === 0) {
+      throw new Error('Encryption passphrase must not be empty');
+    }
+    return scryptSync(key, salt, KEY_LENGTH);
+  }
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Encryption key must be ${KEY_LENGTH} bytes, got ${key.length}`);
+  }
+  return Buffer.from(key);
+}
+
+/**
+ * AES-256-GCM encryption of stored payloads. Encrypted data starts with the id
+ * of its key, so messages written with a previous key can still be read after
+ * rotating. Decryption throws when data was tampered with or its key is unknown.
+ *
+ * By default whole payloads are encrypted (see PayloadCodec). With `fields`
+ * only those fields are, as `{ $enc: '{keyId}:{base64}' }`, and the rest of
+ * the document stays readable.
+ */
+export class DocumentCipher {
+  private keyId: Buffer;
+  private keys: Map<string, Buffer> = new Map();
+  private fields: string[] | null;
+  private allowPlaintext: boolean;
+
+  constructor(options: EncryptionOptions, salt: string) {
+    const current = deriveKey(options.key, options.salt ?? salt);
+    this.keyId = getKeyId(current);
+    this.keys.set(this.keyId.toString('hex'), current);
+    for (const previous of options.previousKeys ?? []) {
+      const key = deriveKey(previous, options.salt ?? salt);
+      this.keys.set(getKeyId(key).toString('hex'), key);
+    }
+    for (const field of options.fields ?? []) {
+      if (['_id', '_table'].includes(field.split('.')[0])) {
+        throw new Error(`${field} can't be encrypted`);
+      }
+    }
+    this.fields = options.fields && options.fields.length > 0 ? options.fields : null;
+    this.allowPlaintext = !!options.allowPlaintext;
+  }
+
+  /** Whether whole payloads are encrypted, rather than selected fields */
+  get encryptsPayload(): boolean {
+    return this.fields === null;
+  }
+
+  /** Whether unencrypted payloads and fields are accepted */
+  get allowsPlaintext(): boolean {
+    return this.allowPlaintext;
+  }
+
+  /** `{key id}{iv}{auth tag}{ciphertext}` */
+  encryptBytes(data: Buffer, context?: string): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(this.keyId.toString('hex'))!, iv);
+    if (context) {
+      cipher.setAAD(Buffer.from(context, 'utf-8'));
+    }
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([this.keyId, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  decryptBytes(data: Buffer, context?: string): Buffer {
+    if (data.length < KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH) {
+      throw new Error('Encrypted data is truncated');
+    }
+    const key = this.keys.get(data.subarray(0, KEY_ID_LENGTH).toString('hex'));
+    if (!key) {
+      throw new Error('Data is encrypted with an unknown key');
+    }
+
+    const ivEnd = KEY_ID_LENGTH + IV_LENGTH;
+    const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(KEY_ID_LENGTH, ivEnd));
+    decipher.setAuthTag(data.subarray(ivEnd, ivEnd + TAG_LENGTH));
+    if (context) {
+      decipher.setAAD(Buffer.from(context, 'utf-8'));
+    }
+    return Buffer.concat([decipher.update(data.subarray(ivEnd + TAG_LENGTH)), decipher.final()]);
+  }
+
+  /** Copy of a document with the configured fields encrypted; unchanged without `fields` */
+  encryptFields(doc: Document): Document {
+    if (!this.fields) {
+      return doc;
+    }
+
+    const result: Document = JSON.parse(JSON.stringify(doc));
+    for (const field of this.fields) {
+      const value = getPath(result, field);
+      if (value !== undefined) {
+        const data = this.encryptBytes(Buffer.from(JSON.stringify(value), 'utf-8'), fieldContext(doc, field));
+        setPath(result, field, { $enc: toKeyedBase64(data) });
+      }
+    }
+    return result;
+  }
+
+  /** Reverse of encryptFields; throws if a field was tampered with or left in plaintext */
+  decryptFields(doc: Document): Document {
+    if (!this.fields) {
+      return doc;
+    }
+
+    const result: Document = JSON.parse(JSON.stringify(doc));
+    for (const field of this.fields) {
+      const value = getPath(result, field);
+      if (value === undefined) continue;
+
+      if (isEncryptedField(value)) {
+        const data = this.decryptBytes(fromKeyedBase64(value.$enc), fieldContext(doc, field));
+        setPath(result, field, JSON.parse(data.toString('utf-8')));
+      } else if (!this.allowPlaintext) {
+        throw new Error(`Field ${field} is not encrypted`);
+      }
+    }
+    return result;
+  }
+}
+
+/** Encrypted data as `{keyId hex}:{base64}`, the text form of encrypted fields */
+export function toKeyedBase64(data: Buffer): string {
+  return `${data.subarray(0, KEY_ID_LENGTH).toString('hex')}:${data.subarray(KEY_ID_LENGTH).toString('base64')}`;
+}
+
+export function fromKeyedBase64(text: string): Buffer {
+  const separator = text.indexOf(':');
+  if (separator !== KEY_ID_LENGTH * 2) {
+    throw new Error('Malformed encrypted value');
+  }
+  return Buffer.concat([
+    Buffer.from(text.substring(0, separator), 'hex'),
+    Buffer.from(text.substring(separator + 1), 'base64'),
+  ]);
+}
+
+function getKeyId(key: Buffer): Buffer {
+  return createHash('sha256').update(key).digest().subarray(0, KEY_ID_LENGTH);
+}
+
+/** Binds an encrypted field to its document and path, so it can't be copied elsewhere */
+function fieldContext(doc: Document, field: string): string {
+  return `${doc._id}/${field}`;
+}
+
+function isEncryptedField(value: any): value is { $enc: string } {
+  return typeof value === 'object' && value !== null && typeof value.$enc === 'string' &&
+    Object.keys(value).length === 1;
+}
+
+function getPath(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], obj);
+}
+
+function setPath(obj: any, path: string, value: any): void {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      return;
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
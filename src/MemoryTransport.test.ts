@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { MemoryTransport } from './MemoryTransport';
+import { TransportMessage } from './types';
+
+describe('MemoryTransport', () => {
+  it('sends, edits, deletes and pins messages', async () => {
+    const transport = new MemoryTransport();
+
+    const first = await transport.sendMessage('chat', 'hello');
+    const second = await transport.sendMessage('chat', 'world');
+    expect([first.message_id, second.message_id]).toEqual([1, 2]);
+
+    await transport.editMessageText('chat', 1, 'hello again');
+    expect((await transport.getMessage('chat', 1))?.text).toBe('hello again');
+
+    await transport.pinMessage('chat', 2);
+    expect((await transport.getChat('chat')).pinned_message?.message_id).toBe(2);
+    // The pin notice
+    const notice = await transport.getMessage('chat', 3);
+    expect(notice?.message_id).toBe(3);
+    expect(notice?.text).toBeUndefined();
+
+    await transport.deleteMessage('chat', 2);
+    expect(await transport.getMessage('chat', 2)).toBeNull();
+    expect((await transport.getChat('chat')).pinned_message).toBeUndefined();
+  });
+
+  it('rejects what Telegram rejects', async () => {
+    const transport = new MemoryTransport({ maxMessageLength: 10 });
+    await transport.sendMessage('chat', 'same');
+
+    await expect(transport.sendMessage('chat', ' ')).rejects.toThrow('message text is empty');
+    await expect(transport.sendMessage('chat', 'x'.repeat(11))).rejects.toThrow('message is too long');
+    await expect(transport.editMessageText('chat', 1, 'same')).rejects.toThrow('message is not modified');
+    await expect(transport.deleteMessage('chat', 5)).rejects.toThrow('message to delete not found');
+  });
+
+  it('delivers messages to connected peers but not to the sender', async () => {
+    const sender = new MemoryTransport();
+    const peer = sender.connect();
+    const seenBySender: TransportMessage[] = [];
+    const seenByPeer: TransportMessage[] = [];
+    sender.onMessage(message => { seenBySender.push(message); });
+    peer.onMessage(message => { seenByPeer.push(message); });
+    await sender.start();
+    await peer.start();
+
+    await sender.sendMessage('chat', 'hello');
+    await sender.injectMessage('chat', 'from someone else');
+
+    expect(seenByPeer.map(message => message.text)).toEqual(['hello', 'from someone else']);
+    expect(seenBySender.map(message => message.text)).toEqual(['from someone else']);
+    expect(peer.getMessages('chat')).toHaveLength(2);
+  });
+
+  it('fails the next calls on request and counts them', async () => {
+    const transport = new MemoryTransport();
+    transport.rateLimitNext(3);
+
+    await expect(transport.sendMessage('chat', 'hello')).rejects.toMatchObject({
+      code: 429,
+      parameters: { retry_after: 3 },
+    });
+    await transport.sendMessage('chat', 'hello');
+
+    expect(transport.getCallCount('sendMessage')).toBe(2);
+    expect(transport.getMessages('chat')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,262 @@
+import { TelegramError } from 'telegraf';
+import {
+  Transport,
+  TransportChat,
+  TransportMessage,
+  TransportMessageHandler,
+} from './types';
+
+/** Telegram's limit for the text of a single message */
+export const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
+
+export interface MemoryTransportOptions {
+  /** Maximum message length in characters (default: 4096, as enforced by Telegram) */
+  maxMessageLength?: number;
+}
+
+interface MemoryChat {
+  messages: Map<number, TransportMessage>;
+  nextMessageId: number;
+  pinnedMessageId?: number;
+}
+
+interface MemoryNetwork {
+  chats: Map<string, MemoryChat>;
+  peers: Set<MemoryTransport>;
+}
+
+/**
+ * In-memory fake of a Telegram chat for offline tests.
+ * Transports returned by `connect()` share the same chats, so several
+ * TelegramDB instances can simulate clients of one chat.
+ */
+export class MemoryTransport implements Transport {
+  private network: MemoryNetwork;
+  private maxMessageLength: number;
+  private handlers: TransportMessageHandler[] = [];
+  private listening: boolean = false;
+  private pendingFailures: Error[] = [];
+  private callCounts: Map<string, number> = new Map();
+
+  constructor(options: MemoryTransportOptions = {}) {
+    this.maxMessageLength = options.maxMessageLength ?? TELEGRAM_MAX_MESSAGE_LENGTH;
+    this.network = { chats: new Map(), peers: new Set([this]) };
+  }
+
+  /** Create another client connected to the same chats */
+  connect(options: MemoryTransportOptions = {}): MemoryTransport {
+    const peer = new MemoryTransport({ maxMessageLength: this.maxMessageLength, ...options });
+    peer.network = this.network;
+    this.network.peers.add(peer);
+    return peer;
+  }
+
+  async getMe(): Promise<unknown> {
+    this.beforeCall('getMe');
+    return { id: 0, is_bot: true, first_name: 'MemoryTransport' };
+  }
+
+  async getChat(chatId: string | number): Promise<TransportChat> {
+    this.beforeCall('getChat');
+    const chat = this.getChatState(chatId);
+    const pinned = chat.pinnedMessageId != null
+      ? chat.messages.get(chat.pinnedMessageId)
+      : undefined;
+    return {
+      id: chatId,
+      pinned_message: pinned ? { ...pinned } : undefined,
+    };
+  }
+
+  async sendMessage(chatId: string | number, text: string): Promise<TransportMessage> {
+    this.beforeCall('sendMessage');
+    this.validateText(text);
+
+    const chat = this.getChatState(chatId);
+    const message: TransportMessage = {
+      message_id: chat.nextMessageId++,
+      chat_id: chatId,
+      text,
+      date: Math.floor(Date.now() / 1000),
+    };
+    chat.messages.set(message.message_id, message);
+    await this.deliver(message);
+
+    return { ...message };
+  }
+
+  async editMessageText(
+    chatId: string | number,
+    messageId: number,
+    text: string
+  ): Promise<TransportMessage> {
+    this.beforeCall('editMessageText');
+    this.validateText(text);
+
+    const message = this.getChatState(chatId).messages.get(messageId);
+    if (!message) {
+      throw this.createError(400, 'Bad Request: message to edit not found');
+    }
+    if (message.text === text) {
+      throw this.createError(400, 'Bad Request: message is not modified');
+    }
+    message.text = text;
+    await this.deliver({ ...message, edited: true });
+
+    return { ...message };
+  }
+
+  async getMessage(chatId: string | number, messageId: number): Promise<TransportMessage | null> {
+    this.beforeCall('getMessage');
+    const message = this.getChatState(chatId).messages.get(messageId);
+    return message ? { ...message } : null;
+  }
+
+  async deleteMessage(chatId: string | number, messageId: number): Promise<boolean> {
+    this.beforeCall('deleteMessage');
+
+    const chat = this.getChatState(chatId);
+    if (!chat.messages.delete(messageId)) {
+      throw this.createError(400, 'Bad Request: message to delete not found');
+    }
+    if (chat.pinnedMessageId === messageId) {
+      chat.pinnedMessageId = undefined;
+    }
+
+    return true;
+  }
+
+  async pinMessage(chatId: string | number, messageId: number): Promise<boolean> {
+    this.beforeCall('pinMessage');
+
+    const chat = this.getChatState(chatId);
+    if (!chat.messages.has(messageId)) {
+      throw this.createError(400, 'Bad Request: message to pin not found');
+    }
+    chat.pinnedMessageId = messageId;
+    // The service message groups show for a pin; it has no text
+    const notice: TransportMessage = {
+      message_id: chat.nextMessageId++,
+      chat_id: chatId,
+      date: Math.floor(Date.now() / 1000),
+    };
+    chat.messages.set(notice.message_id, notice);
+
+    return true;
+  }
+
+  onMessage(handler: TransportMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async start(): Promise<void> {
+    this.listening = true;
+  }
+
+  stop(): void {
+    this.listening = false;
+  }
+
+  /** Post a message as another chat member; delivered to every listening client */
+  async injectMessage(chatId: string | number, text: string): Promise<TransportMessage> {
+    this.validateText(text);
+
+    const chat = this.getChatState(chatId);
+    const message: TransportMessage = {
+      message_id: chat.nextMessageId++,
+      chat_id: chatId,
+      text,
+      date: Math.floor(Date.now() / 1000),
+    };
+    chat.messages.set(message.message_id, message);
+    await this.deliver(message, null);
+
+    return { ...message };
+  }
+
+  /** Make the next `count` API calls fail with the given error */
+  failNext(error: Error | string = 'Simulated failure', count: number = 1): void {
+    const failure = typeof error === 'string'
+      ? this.createError(500, `Internal Server Error: ${error}`)
+      : error;
+    for (let i = 0; i < count; i++) {
+      this.pendingFailures.push(failure);
+    }
+  }
+
+  /** Make the next `count` API calls fail with 429 Too Many Requests */
+  rateLimitNext(retryAfter: number = 1, count: number = 1): void {
+    this.failNext(
+      this.createError(429, `Too Many Requests: retry after ${retryAfter}`, retryAfter),
+      count
+    );
+  }
+
+  /** All messages currently in a chat, ordered by message id */
+  getMessages(chatId: string | number): TransportMessage[] {
+    return Array.from(this.getChatState(chatId).messages.values())
+      .sort((a, b) => a.message_id - b.message_id)
+      .map(message => ({ ...message }));
+  }
+
+  /** Number of API calls made through this client, optionally for one method */
+  getCallCount(method?: string): number {
+    if (method) {
+      return this.callCounts.get(method) ?? 0;
+    }
+    let total = 0;
+    for (const count of this.callCounts.values()) {
+      total += count;
+    }
+    return total;
+  }
+
+  private beforeCall(method: string): void {
+    this.callCounts.set(method, (this.callCounts.get(method) ?? 0) + 1);
+
+    const failure = this.pendingFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  private validateText(text: string): void {
+    if (!text || text.trim().length === 0) {
+      throw this.createError(400, 'Bad Request: message text is empty');
+    }
+    if (text.length > this.maxMessageLength) {
+      throw this.createError(400, 'Bad Request: message is too long');
+    }
+  }
+
+  private getChatState(chatId: string | number): MemoryChat {
+    const key = String(chatId);
+    let chat = this.network.chats.get(key);
+    if (!chat) {
+      chat = { messages: new Map(), nextMessageId: 1 };
+      this.network.chats.set(key, chat);
+    }
+    return chat;
+  }
+
+  /** Bots don't receive their own messages, so the sender is skipped */
+  private async deliver(
+    message: TransportMessage,
+    sender: MemoryTransport | null = this
+  ): Promise<void> {
+    for (const peer of this.network.peers) {
+      if (peer === sender || !peer.listening) continue;
+      for (const handler of peer.handlers) {
+        await handler({ ...message });
+      }
+    }
+  }
+
+  private createError(errorCode: number, description: string, retryAfter?: number): TelegramError {
+    return new TelegramError({
+      error_code: errorCode,
+      description,
+      parameters: retryAfter != null ? { retry_after: retryAfter } : undefined,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { gunzipSync, gzipSync } from 'zlib';
+import { DocumentCipher } from './DocumentCipher';
+import { PayloadCodec } from './PayloadCodec';
+
+const doc = { _id: 'a', _table: 'notes', text: 'Telegram as a database. '.repeat(50), n: [1, 2, 3] };
+
+describe('PayloadCodec', () => {
+  it('writes plain JSON by default and for documents compression doesn\'t shrink', () => {
+    expect(new PayloadCodec().encode(doc)).toBe(JSON.stringify(doc));
+    expect(new PayloadCodec({ compression: 'deflate' }).encode({ _id: 'a', _table: 't' })).toBe('{"_id":"a","_table":"t"}');
+  });
+
+  it('compresses behind a header that any codec decodes', () => {
+    for (const options of [
+      { compression: 'deflate' as const },
+      { compression: 'brotli' as const },
+      { compression: 'deflate' as const, encoding: 'base16k' as const },
+    ]) {
+      const payload = new PayloadCodec(options).encode(doc);
+
+      expect(payload).toMatch(new RegExp(`^C1:${options.compression}\\.${options.encoding ?? 'base64'}:`));
+      expect(payload.length).toBeLessThan(JSON.stringify(doc).length / 4);
+      expect(new PayloadCodec().decode(payload)).toEqual(doc);
+    }
+  });
+
+  it('round-trips bytes of every length through base16k', () => {
+    // Encrypted payloads always get a header, whatever their size
+    const codec = new PayloadCodec({ encoding: 'base16k' }, new DocumentCipher({ key: 'secret' }, 'salt'));
+    for (let length = 0; length < 15; length++) {
+      const sample = { _id: 'a', _table: 't', text: 'x'.repeat(length) };
+      const payload = codec.encode(sample);
+
+      expect(payload.substring('C1:none.base16k.enc:'.length)).toMatch(/^[\u4e00-\u8dff]+=?$/);
+      expect(codec.decode(payload)).toEqual(sample);
+    }
+  });
+
+  it('supports custom compression codecs by name', () => {
+    const gzip = { name: 'gzip', compress: gzipSync, decompress: gunzipSync };
+    const codec = new PayloadCodec({ compression: gzip });
+
+    expect(codec.encode(doc)).toMatch(/^C1:gzip\.base64:/);
+    expect(codec.decode(codec.encode(doc))).toEqual(doc);
+    expect(() => new PayloadCodec().decode(codec.encode(doc))).toThrow('Unknown compression: gzip');
+    expect(() => new PayloadCodec({ compression: { ...gzip, name: 'no spaces' } })).toThrow('Invalid compression codec name');
+    expect(() => new PayloadCodec({ compression: 'zip' as any })).toThrow('Unknown compression: zip');
+  });
+
+  it('encrypts whole payloads and refuses plaintext unless allowed', () => {
+    const cipher = new DocumentCipher({ key: 'secret' }, 'salt');
+    const codec = new PayloadCodec({ encoding: 'base16k' }, cipher);
+
+    const payload = codec.encode(doc);
+
+    expect(payload).toMatch(/^C1:none\.base16k\.enc:/);
+    expect(codec.decode(payload)).toEqual(doc);
+    expect(() => new PayloadCodec().decode(payload)).toThrow('no encryption key is configured');
+    expect(() => codec.decode(JSON.stringify(doc))).toThrow('Payload is not encrypted');
+    const lenient = new PayloadCodec({}, new DocumentCipher({ key: 'secret', allowPlaintext: true }, 'salt'));
+    expect(lenient.decode(JSON.stringify(doc))).toEqual(doc);
+  });
+});
@@ -0,0 +1,199 @@
+import { brotliCompressSync, brotliDecompressSync, deflateRawSync, inflateRawSync, constants } from 'zlib';
+import { Document, CodecOptions, CompressionCodec, TextEncoding } from './types';
+import { DocumentCipher } from './DocumentCipher';
+
+/** Header of encoded payloads: `C1:{compression}.{encoding}[.enc]:{data}` */
+export const PAYLOAD_HEADER = 'C1:';
+
+/** First code point of the base16k alphabet: 16384 CJK ideographs, which Telegram keeps as-is */
+const BASE16K_START = 0x4e00;
+const BASE16K_BITS = 14;
+
+const BUILT_IN_CODECS: CompressionCodec[] = [
+  {
+    name: 'none',
+    compress: data => data,
+    decompress: data => data,
+  },
+  {
+    name: 'deflate',
+    compress: data => deflateRawSync(data, { level: 9 }),
+    decompress: data => inflateRawSync(data),
+  },
+  {
+    name: 'brotli',
+    compress: data => brotliCompressSync(data, {
+      params: { [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT },
+    }),
+    decompress: data => brotliDecompressSync(data),
+  },
+];
+
+const TEXT_ENCODINGS: TextEncoding[] = ['base64', 'base16k'];
+
+/**
+ * Turns documents into message payloads and back. Without compression or
+ * encryption a payload is plain JSON, as written by every version. Otherwise
+ * the JSON is compressed, encrypted and written as text behind a header
+ * naming how, so payloads of any format decode whatever the current options.
+ */
+export class PayloadCodec {
+  private compression: CompressionCodec;
+  private encoding: TextEncoding;
+  private codecs: Map<string, CompressionCodec>;
+
+  constructor(options: CodecOptions = {}, private cipher?: DocumentCipher) {
+    this.codecs = new Map(BUILT_IN_CODECS.map(codec => [codec.name, codec]));
+
+    const compression = options.compression ?? 'none';
+    if (typeof compression === 'string') {
+      const codec = this.codecs.get(compression);
+      if (!codec) {
+        throw new Error(`Unknown compression: ${compression}`);
+      }
+      this.compression = codec;
+    } else {
+      if (!/^[a-z0-9-]+$/i.test(compression.name)) {
+        throw new Error(`Invalid compression codec name: ${compression.name}`);
+      }
+      this.compression = compression;
+      this.codecs.set(compression.name, compression);
+    }
+
+    this.encoding = options.encoding ?? 'base64';
+    if (!TEXT_ENCODINGS.includes(this.encoding)) {
+      throw new Error(`Unknown encoding: ${this.encoding}`);
+    }
+  }
+
+  encode(doc: Document): string {
+    const json = JSON.stringify(this.cipher ? this.cipher.encryptFields(doc) : doc);
+    const encrypt = !!this.cipher?.encryptsPayload;
+    if (this.compression.name === 'none' && !encrypt) {
+      return json;
+    }
+
+    let data = this.compression.compress(Buffer.from(json, 'utf-8'));
+    if (encrypt) {
+      data = this.cipher!.encryptBytes(data);
+    }
+    const flags = `${this.compression.name}.${this.encoding}${encrypt ? '.enc' : ''}`;
+    const payload = `${PAYLOAD_HEADER}${flags}:${encodeText(data, this.encoding)}`;
+
+    // Small documents often grow when compressed; plain JSON is then shorter
+    return !encrypt && payload.length >= json.length ? json : payload;
+  }
+
+  /** Throws for malformed, tampered or (with encryption) unencrypted payloads */
+  decode(payload: string): Document {
+    if (payload.startsWith(PAYLOAD_HEADER)) {
+      const separator = payload.indexOf(':', PAYLOAD_HEADER.length);
+      if (separator === -1) {
+        throw new Error('Malformed payload header');
+      }
+      const [compression, encoding, flag] = payload.substring(PAYLOAD_HEADER.length, separator).split('.');
+
+      let data = decodeText(payload.substring(separator + 1), encoding as TextEncoding);
+      if (flag === 'enc') {
+        if (!this.cipher) {
+          throw new Error('Payload is encrypted but no encryption key is configured');
+        }
+        data = this.cipher.decryptBytes(data);
+      }
+
+      const codec = this.codecs.get(compression);
+      if (!codec) {
+        throw new Error(`Unknown compression: ${compression}`);
+      }
+      const doc = JSON.parse(codec.decompress(data).toString('utf-8'));
+      return flag === 'enc' ? doc : this.openPlaintext(doc);
+    }
+
+    return this.openPlaintext(JSON.parse(payload));
+  }
+
+  /** A payload that wasn't encrypted as a whole: decrypt its fields, or check plaintext is allowed */
+  private openPlaintext(doc: Document): Document {
+    if (!this.cipher) {
+      return doc;
+    }
+    if (!this.cipher.encryptsPayload) {
+      return this.cipher.decryptFields(doc);
+    }
+    if (!this.cipher.allowsPlaintext) {
+      throw new Error('Payload is not encrypted');
+    }
+    return doc;
+  }
+}
+
+function encodeText(data: Buffer, encoding: TextEncoding): string {
+  return encoding === 'base16k' ? toBase16k(data) : data.toString('base64');
+}
+
+function decodeText(text: string, encoding: TextEncoding): Buffer {
+  switch (encoding) {
+    case 'base64':
+      return Buffer.from(text, 'base64');
+    case 'base16k':
+      return fromBase16k(text);
+    default:
+      throw new Error(`Unknown encoding: ${encoding}`);
+  }
+}
+
+/**
+ * 14 bits per character instead of base64's 6. A trailing `=` marks padding
+ * long enough to otherwise decode as an extra byte.
+ */
+function toBase16k(data: Buffer): string {
+  let result = '';
+  let value = 0;
+  let bits = 0;
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    if (bits >= BASE16K_BITS) {
+      bits -= BASE16K_BITS;
+      result += String.fromCharCode(BASE16K_START + (value >> bits));
+      value &= (1 << bits) - 1;
+    }
+  }
+
+  if (bits > 0) {
+    const padding = BASE16K_BITS - bits;
+    result += String.fromCharCode(BASE16K_START + (value << padding));
+    if (padding >= 8) {
+      result += '=';
+    }
+  }
+
+  return result;
+}
+
+function fromBase16k(text: string): Buffer {
+  const padded = text.endsWith('=');
+  const bytes: number[] = [];
+  let value = 0;
+  let bits = 0;
+
+  for (let i = 0; i < text.length - (padded ? 1 : 0); i++) {
+    const code = text.charCodeAt(i) - BASE16K_START;
+    if (code < 0 || code >= 1 << BASE16K_BITS) {
+      throw new Error('Invalid base16k character');
+    }
+    value = (value << BASE16K_BITS) | code;
+    bits += BASE16K_BITS;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((value >> bits) & 0xff);
+    }
+    value &= (1 << bits) - 1;
+  }
+
+  if (padded) {
+    bytes.pop();
+  }
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ModuleKind, ScriptTarget, transpileModule } from 'typescript';
+import { RequestScheduler, getRetryAfter, isRetryableError } from './RequestScheduler';
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs at most perChat requests per interval for each chat', async () => {
+    const scheduler = new RequestScheduler({ perChat: 1 });
+    const ran: string[] = [];
+    const call = (chat: string, name: string) => scheduler.schedule(chat, async () => { ran.push(name); });
+
+    const done = Promise.all([call('a', 'a1'), call('a', 'a2'), call('b', 'b1')]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(ran).toEqual(['a1', 'b1']);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(ran).toEqual(['a1', 'b1']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await done;
+    expect(ran).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('pauses a chat for the retry_after of a 429', async () => {
+    const scheduler = new RequestScheduler({ perChat: 100 });
+    let attempts = 0;
+    const result = scheduler.schedule('a', async () => {
+      if (attempts++ === 0) {
+        throw { code: 429, parameters: { retry_after: 2 } };
+      }
+      return 'ok';
+    });
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(attempts).toBe(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+    expect(scheduler.getMetrics()).toMatchObject({ rateLimitHits: 1, queueDepth: 0 });
+  });
+
+  it('rejects fatal errors without retrying', async () => {
+    const scheduler = new RequestScheduler();
+    const operation = jest.fn(async () => {
+      throw { code: 400, description: 'Bad Request: message is too long' };
+    });
+
+    await expect(scheduler.schedule('a', operation)).rejects.toMatchObject({ code: 400 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RequestScheduler in a process', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tg-db-scheduler-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the process alive while a throttled request waits', () => {
+    const source = readFileSync(join(__dirname, 'RequestScheduler.ts'), 'utf-8');
+    writeFileSync(join(dir, 'RequestScheduler.js'), transpileModule(source, {
+      compilerOptions: { module: ModuleKind.CommonJS, target: ScriptTarget.ES2020 },
+    }).outputText);
+    const script = `
+      const { RequestScheduler } = require(${JSON.stringify(join(dir, 'RequestScheduler.js'))});
+      const scheduler = new RequestScheduler({ perChat: 1, interval: 200 });
+      scheduler.schedule('a', async () => console.log('first'));
+      scheduler.schedule('a', async () => console.log('throttled'));
+    `;
+
+    const result = spawnSync(process.execPath, ['-e', script], { encoding: 'utf-8', timeout: 10000 });
+
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(0);
+    expect(result.stdout.split('\n').filter(Boolean)).toEqual(['first', 'throttled']);
+  });
+});
+
+describe('error classification', () => {
+  it('retries 429, 5xx and network errors only', () => {
+    expect(isRetryableError({ code: 429 })).toBe(true);
+    expect(isRetryableError({ response: { error_code: 502 } })).toBe(true);
+    expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isRetryableError({ code: 400 })).toBe(false);
+  });
+
+  it('reads retry_after from 429s', () => {
+    expect(getRetryAfter({ code: 429, parameters: { retry_after: 5 } })).toBe(5);
+    expect(getRetryAfter({ response: { error_code: 429 } })).toBe(1);
+    expect(getRetryAfter({ code: 500 })).toBeNull();
+  });
+});
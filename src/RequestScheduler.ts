@@ -0,0 +1,241 @@
+import { RateLimitOptions, SchedulerMetrics } from './types';
+
+interface QueuedRequest {
+  operation: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  enqueuedAt: number;
+  started: boolean;
+  attempts: number;
+  rateLimitRetries: number;
+}
+
+/** Seconds Telegram asks us to wait, if the error is a 429 */
+export function getRetryAfter(error: any): number | null {
+  const code = error?.code ?? error?.response?.error_code;
+  if (code !== 429) {
+    return null;
+  }
+  const retryAfter = error?.parameters?.retry_after ?? error?.response?.parameters?.retry_after;
+  return typeof retryAfter === 'number' ? retryAfter : 1;
+}
+
+/**
+ * Whether a failed request is worth retrying. Telegram 4xx errors such as
+ * 400 "message is too long" are fatal; 429, 5xx and network errors are not.
+ */
+export function isRetryableError(error: any): boolean {
+  const code = error?.code ?? error?.response?.error_code;
+  if (typeof code === 'number') {
+    return code === 429 || code >= 500;
+  }
+  // Network errors carry string codes (ECONNRESET, ETIMEDOUT, ...); unknown errors are retried
+  return true;
+}
+
+/**
+ * Central queue for outbound Telegram calls. Requests for one chat run one at
+ * a time in FIFO order, within per-chat and global sliding-window limits.
+ * A 429 pauses the chat for `retry_after` seconds; other retryable errors back
+ * off exponentially; fatal errors are rejected immediately.
+ */
+export class RequestScheduler {
+  private perChatLimit: number;
+  private globalLimit: number;
+  private interval: number;
+  private maxRateLimitRetries: number;
+  private maxRetries: number;
+  private queues: Map<string, QueuedRequest[]> = new Map();
+  private busyChats: Set<string> = new Set();
+  private pausedUntil: Map<string, number> = new Map();
+  private chatWindows: Map<string, number[]> = new Map();
+  private globalWindow: number[] = [];
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeAt: number = Infinity;
+  private metrics = {
+    totalRequests: 0,
+    failedRequests: 0,
+    retries: 0,
+    rateLimitHits: 0,
+    startedRequests: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+  };
+
+  constructor(options: RateLimitOptions = {}, maxRetries: number = 3) {
+    this.perChatLimit = options.perChat ?? 20;
+    this.globalLimit = options.global ?? 30;
+    this.interval = options.interval ?? 1000;
+    this.maxRateLimitRetries = options.maxRateLimitRetries ?? 10;
+    this.maxRetries = maxRetries;
+  }
+
+  /** Queue an operation against a chat; resolves with its result once it has run */
+  schedule<T>(chatId: string | number, operation: () => Promise<T>): Promise<T> {
+    const key = String(chatId);
+
+    return new Promise<T>((resolve, reject) => {
+      let queue = this.queues.get(key);
+      if (!queue) {
+        queue = [];
+        this.queues.set(key, queue);
+      }
+      queue.push({
+        operation,
+        resolve,
+        reject,
+        enqueuedAt: Date.now(),
+        started: false,
+        attempts: 0,
+        rateLimitRetries: 0,
+      });
+      this.metrics.totalRequests++;
+      this.pump();
+    });
+  }
+
+  getMetrics(): SchedulerMetrics {
+    let queueDepth = 0;
+    for (const queue of this.queues.values()) {
+      queueDepth += queue.length;
+    }
+
+    return {
+      queueDepth,
+      inFlight: this.busyChats.size,
+      totalRequests: this.metrics.totalRequests,
+      failedRequests: this.metrics.failedRequests,
+      retries: this.metrics.retries,
+      rateLimitHits: this.metrics.rateLimitHits,
+      averageWaitMs: this.metrics.startedRequests > 0
+        ? Math.round(this.metrics.totalWaitMs / this.metrics.startedRequests)
+        : 0,
+      maxWaitMs: this.metrics.maxWaitMs,
+    };
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    let nextReadyAt = Infinity;
+
+    for (const [key, queue] of this.queues) {
+      if (queue.length === 0 || this.busyChats.has(key)) continue;
+
+      const readyAt = this.getReadyAt(key, now);
+      if (readyAt > now) {
+        nextReadyAt = Math.min(nextReadyAt, readyAt);
+        continue;
+      }
+
+      const request = queue.shift()!;
+      if (queue.length === 0) {
+        this.queues.delete(key);
+      }
+      this.run(key, request, now);
+    }
+
+    if (nextReadyAt !== Infinity) {
+      this.wakeUpAt(nextReadyAt);
+    } else if (this.wakeTimer && this.queues.size === 0) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+      this.wakeAt = Infinity;
+    }
+  }
+
+  private getReadyAt(key: string, now: number): number {
+    return Math.max(
+      this.pausedUntil.get(key) ?? 0,
+      this.getWindowReadyAt(this.getChatWindow(key), this.perChatLimit, now),
+      this.getWindowReadyAt(this.globalWindow, this.globalLimit, now)
+    );
+  }
+
+  private getWindowReadyAt(window: number[], limit: number, now: number): number {
+    while (window.length > 0 && window[0] <= now - this.interval) {
+      window.shift();
+    }
+    return window.length < limit ? now : window[window.length - limit] + this.interval;
+  }
+
+  private getChatWindow(key: string): number[] {
+    let window = this.chatWindows.get(key);
+    if (!window) {
+      window = [];
+      this.chatWindows.set(key, window);
+    }
+    return window;
+  }
+
+  /** The timer keeps the process alive, since a throttled request is still awaited */
+  private wakeUpAt(time: number): void {
+    if (this.wakeTimer && this.wakeAt <= time) {
+      return;
+    }
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+    }
+    this.wakeAt = time;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.wakeAt = Infinity;
+      this.pump();
+    }, Math.max(0, time - Date.now()));
+  }
+
+  private async run(key: string, request: QueuedRequest, now: number): Promise<void> {
+    this.busyChats.add(key);
+    this.getChatWindow(key).push(now);
+    this.globalWindow.push(now);
+
+    if (!request.started) {
+      request.started = true;
+      const waitMs = now - request.enqueuedAt;
+      this.metrics.startedRequests++;
+      this.metrics.totalWaitMs += waitMs;
+      this.metrics.maxWaitMs = Math.max(this.metrics.maxWaitMs, waitMs);
+    }
+
+    try {
+      request.resolve(await request.operation());
+    } catch (error: any) {
+      this.handleFailure(key, request, error);
+    } finally {
+      this.busyChats.delete(key);
+      this.pump();
+    }
+  }
+
+  /** Requeue retryable failures at the front of the chat's queue so order is kept */
+  private handleFailure(key: string, request: QueuedRequest, error: any): void {
+    const retryAfter = getRetryAfter(error);
+
+    if (retryAfter !== null && request.rateLimitRetries < this.maxRateLimitRetries) {
+      request.rateLimitRetries++;
+      this.metrics.rateLimitHits++;
+      this.pausedUntil.set(key, Date.now() + retryAfter * 1000);
+      this.requeue(key, request);
+      return;
+    }
+
+    request.attempts++;
+    if (retryAfter === null && isRetryableError(error) && request.attempts < this.maxRetries) {
+      this.metrics.retries++;
+      this.pausedUntil.set(key, Date.now() + Math.min(1000 * 2 ** (request.attempts - 1), 30000));
+      this.requeue(key, request);
+      return;
+    }
+
+    this.metrics.failedRequests++;
+    request.reject(error);
+  }
+
+  private requeue(key: string, request: QueuedRequest): void {
+    const queue = this.queues.get(key);
+    if (queue) {
+      queue.unshift(request);
+    } else {
+      this.queues.set(key, [request]);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { RequestScheduler } from './RequestScheduler';
+import {
+  Transport,
+  TransportChat,
+  TransportMessage,
+  TransportMessageHandler,
+} from './types';
+
+/** Scheduler key for calls that are not tied to a chat */
+const BOT_KEY = '__bot__';
+
+/** Routes every call of another transport through a RequestScheduler */
+export class ScheduledTransport implements Transport {
+  constructor(
+    private transport: Transport,
+    private scheduler: RequestScheduler
+  ) {}
+
+  async getMe(): Promise<unknown> {
+    return this.scheduler.schedule(BOT_KEY, () => this.transport.getMe());
+  }
+
+  async getChat(chatId: string | number): Promise<TransportChat> {
+    return this.scheduler.schedule(chatId, () => this.transport.getChat(chatId));
+  }
+
+  async sendMessage(chatId: string | number, text: string): Promise<TransportMessage> {
+    return this.scheduler.schedule(chatId, () => this.transport.sendMessage(chatId, text));
+  }
+
+  async editMessageText(
+    chatId: string | number,
+    messageId: number,
+    text: string
+  ): Promise<TransportMessage> {
+    return this.scheduler.schedule(chatId, () => this.transport.editMessageText(chatId, messageId, text));
+  }
+
+  async getMessage(chatId: string | number, messageId: number): Promise<TransportMessage | null> {
+    return this.scheduler.schedule(chatId, () => this.transport.getMessage(chatId, messageId));
+  }
+
+  async deleteMessage(chatId: string | number, messageId: number): Promise<boolean> {
+    return this.scheduler.schedule(chatId, () => this.transport.deleteMessage(chatId, messageId));
+  }
+
+  async pinMessage(chatId: string | number, messageId: number): Promise<boolean> {
+    return this.scheduler.schedule(chatId, () => this.transport.pinMessage(chatId, messageId));
+  }
+
+  onMessage(handler: TransportMessageHandler): void {
+    this.transport.onMessage(handler);
+  }
+
+  async start(): Promise<void> {
+    return this.transport.start();
+  }
+
+  stop(): void {
+    this.transport.stop();
+  }
+}
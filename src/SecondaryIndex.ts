@@ -0,0 +1,103 @@
+import { Document } from './types';
+import { getNestedValue } from './utils';
+
+/**
+ * In-memory index from the values of one field to document ids. Missing and
+ * null values are not indexed; array values are indexed per element.
+ */
+export class SecondaryIndex {
+  private entries: Map<string, Set<string>> = new Map();
+
+  constructor(
+    readonly field: string,
+    readonly unique: boolean = false
+  ) {}
+
+  /** Index keys of a document for this field */
+  keysOf(doc: Document): string[] {
+    const value = getNestedValue(doc, this.field);
+    if (value === undefined || value === null) {
+      return [];
+    }
+    const values = Array.isArray(value) ? value : [value];
+    return Array.from(new Set(values.map(item => JSON.stringify(item))));
+  }
+
+  add(doc: Document): void {
+    for (const key of this.keysOf(doc)) {
+      let ids = this.entries.get(key);
+      if (!ids) {
+        ids = new Set();
+        this.entries.set(key, ids);
+      }
+      ids.add(doc._id);
+    }
+  }
+
+  remove(doc: Document): void {
+    for (const key of this.keysOf(doc)) {
+      const ids = this.entries.get(key);
+      if (ids) {
+        ids.delete(doc._id);
+        if (ids.size === 0) {
+          this.entries.delete(key);
+        }
+      }
+    }
+  }
+
+  /** Re-index a changed document; untouched keys keep their position */
+  update(previous: Document, doc: Document): void {
+    const previousKeys = this.keysOf(previous);
+    const keys = this.keysOf(doc);
+    if (previousKeys.length === keys.length && previousKeys.every((key, i) => key === keys[i])) {
+      return;
+    }
+    this.remove(previous);
+    this.add(doc);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Ids of documents stored under an index key */
+  getIds(key: string): Set<string> {
+    return this.entries.get(key) ?? new Set();
+  }
+
+  /**
+   * Ids of documents that can match a filter condition on this field, or null
+   * when the index can't answer it (ranges, regexes, null, objects, ...).
+   */
+  lookup(condition: any): Set<string> | null {
+    if (isIndexable(condition)) {
+      return this.getIds(JSON.stringify(condition));
+    }
+
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+      return null;
+    }
+
+    const operators = Object.keys(condition);
+    if (operators.length !== 1) {
+      return null;
+    }
+    if (operators[0] === '$eq' && isIndexable(condition.$eq)) {
+      return this.getIds(JSON.stringify(condition.$eq));
+    }
+    if (operators[0] === '$in' && Array.isArray(condition.$in) && condition.$in.every(isIndexable)) {
+      const ids = new Set<string>();
+      for (const value of condition.$in) {
+        this.getIds(JSON.stringify(value)).forEach(id => ids.add(id));
+      }
+      return ids;
+    }
+
+    return null;
+  }
+}
+
+function isIndexable(value: any): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { ShardRouter, sameChat } from './ShardRouter';
+
+const CHATS = ['-1001234567890', '-1001234567891', '-1001234567892'];
+const IDS = Array.from({ length: 3000 }, (_, i) => `doc-${i}`);
+
+function countByChat(router: ShardRouter, table: string, ids: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const id of ids) {
+    const chat = String(router.route(table, id));
+    counts.set(chat, (counts.get(chat) ?? 0) + 1);
+  }
+  return counts;
+}
+
+describe('ShardRouter', () => {
+  it('spreads ids evenly over chats with ids that differ in one digit', () => {
+    const counts = countByChat(new ShardRouter({ chats: CHATS, by: 'id' }), 'users', IDS);
+
+    expect(counts.size).toBe(3);
+    for (const count of counts.values()) {
+      expect(count / IDS.length).toBeGreaterThan(0.28);
+      expect(count / IDS.length).toBeLessThan(0.39);
+    }
+  });
+
+  it('spreads tables over chats by default', () => {
+    const router = new ShardRouter(CHATS);
+    const tables = ['users', 'orders', 'sessions', 'products', 'logs', 'events'];
+
+    const chats = new Set(tables.map(table => String(router.route(table, 'any'))));
+
+    expect(chats.size).toBeGreaterThan(1);
+    expect(router.route('users', 'a')).toBe(router.route('users', 'b'));
+  });
+
+  it('moves only the documents a new chat wins, about an even share', () => {
+    const before = new ShardRouter({ chats: CHATS, by: 'id' });
+    const after = new ShardRouter({ chats: [...CHATS, '-1001234567893'], by: 'id' });
+
+    const moved = IDS.filter(id => !sameChat(before.route('users', id), after.route('users', id)));
+
+    expect(moved.every(id => after.route('users', id) === '-1001234567893')).toBe(true);
+    expect(moved.length / IDS.length).toBeGreaterThan(0.2);
+    expect(moved.length / IDS.length).toBeLessThan(0.3);
+  });
+
+  it('keeps system documents in the primary chat and honours pinned tables', () => {
+    const router = new ShardRouter({ chats: CHATS, by: 'id', tables: { audit: '-100999' } });
+
+    expect(IDS.slice(0, 50).every(id => router.route('__SYSTEM__', id) === CHATS[0])).toBe(true);
+    expect(router.route('audit', 'x')).toBe('-100999');
+    expect(router.getChats()).toEqual([...CHATS, '-100999']);
+    expect(router.isPrimary(Number(CHATS[0]))).toBe(true);
+  });
+
+  it('rejects bad options', () => {
+    expect(() => new ShardRouter([])).toThrow('At least one chat is required');
+    expect(() => new ShardRouter({ chats: CHATS, by: 'name' as any })).toThrow('Unknown shard key: name');
+  });
+});
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { ShardOptions } from './types';
+
+/**
+ * Picks the chat a document is stored in. Chats are chosen by rendezvous
+ * hashing, so adding a chat only moves the documents it now wins rather
+ * than reshuffling all of them.
+ */
+export class ShardRouter {
+  /** Chat that holds the index, transaction markers and unsharded data */
+  readonly primary: string | number;
+  private chats: Array<string | number>;
+  private by: 'table' | 'id';
+  private tables: Map<string, string | number>;
+
+  constructor(chatId: string | number | Array<string | number> | ShardOptions) {
+    const options: ShardOptions = Array.isArray(chatId)
+      ? { chats: chatId }
+      : typeof chatId === 'object' && chatId !== null
+        ? chatId
+        : { chats: [chatId] };
+
+    if (!Array.isArray(options.chats) || options.chats.length === 0) {
+      throw new Error('At least one chat is required');
+    }
+    if (options.by !== undefined && options.by !== 'table' && options.by !== 'id') {
+      throw new Error(`Unknown shard key: ${options.by}`);
+    }
+
+    this.chats = unique(options.chats);
+    this.primary = this.chats[0];
+    this.by = options.by ?? 'table';
+    this.tables = new Map(Object.entries(options.tables ?? {}));
+  }
+
+  /** Whether documents are spread over more than one chat */
+  get sharded(): boolean {
+    return this.getChats().length > 1;
+  }
+
+  /** Every chat the database uses, the primary first */
+  getChats(): Array<string | number> {
+    return unique([...this.chats, ...this.tables.values()]);
+  }
+
+  /** Chat a document of `table` with this `_id` belongs in */
+  route(table: string, id: string): string | number {
+    if (table === '__SYSTEM__') {
+      return this.primary;
+    }
+    const pinned = this.tables.get(table);
+    if (pinned !== undefined) {
+      return pinned;
+    }
+    if (this.chats.length === 1) {
+      return this.primary;
+    }
+
+    const key = this.by === 'id' ? id : table;
+    let best = this.chats[0];
+    let bestScore = -1;
+    for (const chat of this.chats) {
+      const score = hashScore(key, chat);
+      if (score > bestScore) {
+        best = chat;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  isPrimary(chatId: string | number): boolean {
+    return sameChat(chatId, this.primary);
+  }
+}
+
+/** Chat ids may be given as numbers or strings */
+export function sameChat(a: string | number, b: string | number): boolean {
+  return String(a) === String(b);
+}
+
+function unique(chats: Array<string | number>): Array<string | number> {
+  return chats.filter((chat, i) => chats.findIndex(other => sameChat(other, chat)) === i);
+}
+
+/**
+ * Rendezvous weight of a chat for a key: the first 48 bits of a sha256, so
+ * chat ids that differ in one digit still get unrelated weights
+ */
+function hashScore(key: string, chat: string | number): number {
+  return createHash('sha256').update(`${key}\0${chat}`).digest().readUIntBE(0, 6);
+}
@@ -1,45 +1,68 @@
 import { TelegramDB } from './TelegramDB';
+import { Cursor } from './Cursor';
+import { ChangeStream } from './ChangeStream';
 import {
   Document,
+  StoredDocument,
+  NewDocument,
   QueryFilter,
+  FindOptions,
   UpdateOptions,
+  TypedUpdateSpec,
+  PipelineStage,
   OperationResult,
   BatchOptions,
+  IndexOptions,
+  IndexDefinition,
+  DocumentVersion,
 } from './types';
 
-/** Table/collection handler for fluent API usage */
-export class TableHandler {
+/**
+ * Table/collection handler for fluent API usage. `T` types the documents of
+ * the table; without it documents are untyped `Document`s.
+ */
+export class TableHandler<T extends object = Document> {
   constructor(
     private db: TelegramDB,
     private tableName: string
   ) {}
 
-  async insert(doc: Partial<Document>): Promise<OperationResult> {
-    return this.db.insert(doc, this.tableName);
+  async insert(doc: NewDocument<T>): Promise<OperationResult> {
+    return this.db.insert(doc as Partial<Document>, this.tableName);
   }
 
   async insertMany(
-    docs: Partial<Document>[],
+    docs: NewDocument<T>[],
     options?: BatchOptions
   ): Promise<OperationResult[]> {
-    return this.db.insertMany(docs, this.tableName, options);
+    return this.db.insertMany(docs as Partial<Document>[], this.tableName, options);
   }
 
-  async find(filter: QueryFilter = {}): Promise<Document[]> {
-    return this.db.find(filter, this.tableName);
+  /** Returns a chainable cursor; await it to get the matching documents */
+  find(filter: QueryFilter = {}, options?: FindOptions): Cursor<StoredDocument<T>> {
+    return new Cursor<StoredDocument<T>>(this.db, this.tableName, filter, options);
   }
 
-  async findOne(filter: QueryFilter = {}): Promise<Document | null> {
-    return this.db.findOne(filter, this.tableName);
+  async findOne(filter: QueryFilter = {}, options?: FindOptions): Promise<StoredDocument<T> | null> {
+    return this.db.findOne(filter, this.tableName, options) as Promise<StoredDocument<T> | null>;
   }
 
-  async findById(id: string): Promise<Document | null> {
-    return this.db.findById(id, this.tableName);
+  async findById(id: string): Promise<StoredDocument<T> | null> {
+    return this.db.findById(id, this.tableName) as Promise<StoredDocument<T> | null>;
+  }
+
+  /** Kept versions of a document, oldest first; needs the table's `history` option */
+  async findHistory(id: string): Promise<DocumentVersion<StoredDocument<T>>[]> {
+    return this.db.findHistory<StoredDocument<T>>(id, this.tableName);
+  }
+
+  async restoreVersion(id: string, rev: number): Promise<OperationResult> {
+    return this.db.restoreVersion(id, rev, this.tableName);
   }
 
   async update(
     filter: QueryFilter,
-    update: Partial<Document>,
+    update: TypedUpdateSpec<T>,
     options?: UpdateOptions
   ): Promise<OperationResult> {
     return this.db.update(filter, update, this.tableName, options);
@@ -47,7 +70,7 @@ export class TableHandler {
 
   async updateById(
     id: string,
-    update: Partial<Document>,
+    update: TypedUpdateSpec<T>,
     options?: UpdateOptions
   ): Promise<OperationResult> {
     return this.db.updateById(id, update, this.tableName, options);
@@ -69,6 +92,27 @@ export class TableHandler {
     return this.db.count(filter, this.tableName);
   }
 
+  async aggregate(pipeline: PipelineStage[]): Promise<any[]> {
+    return this.db.aggregate(pipeline, this.tableName);
+  }
+
+  async createIndex(field: string, options?: IndexOptions): Promise<OperationResult> {
+    return this.db.createIndex(field, this.tableName, options);
+  }
+
+  async dropIndex(field: string): Promise<OperationResult> {
+    return this.db.dropIndex(field, this.tableName);
+  }
+
+  async getIndexes(): Promise<IndexDefinition[]> {
+    return this.db.getIndexes(this.tableName);
+  }
+
+  /** Watch changes to documents of this table matching the filter */
+  watch(filter: QueryFilter = {}): ChangeStream<StoredDocument<T>> {
+    return this.db.watch<StoredDocument<T>>(filter, this.tableName);
+  }
+
   getTableName(): string {
     return this.tableName;
   }
@@ -0,0 +1,69 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { TelegramError } from 'telegraf';
+import { TelegrafTransport } from './TelegrafTransport';
+import { TransportMessage } from './types';
+
+function badRequest(description: string): TelegramError {
+  return new TelegramError({ error_code: 400, description });
+}
+
+/** A transport whose Bot API calls are replaced by mocks */
+function createTransport(forward: () => Promise<any>) {
+  const transport = new TelegrafTransport('123:test');
+  const telegram = (transport as any).bot.telegram;
+  telegram.forwardMessage = jest.fn(forward);
+  telegram.deleteMessage = jest.fn(async () => true);
+  return { transport, telegram };
+}
+
+describe('TelegrafTransport', () => {
+  it('reads a message by forwarding it and deleting the forward', async () => {
+    const { transport, telegram } = createTransport(async () => ({
+      message_id: 99, text: 'TDB:{}', date: 2, forward_date: 1,
+    }));
+
+    expect(await transport.getMessage(-100, 5)).toEqual({ message_id: 5, chat_id: -100, text: 'TDB:{}', date: 1 });
+    expect(telegram.deleteMessage).toHaveBeenCalledWith(-100, 99);
+  });
+
+  it('returns null for a message that is gone', async () => {
+    const { transport } = createTransport(async () => {
+      throw badRequest('Bad Request: message to forward not found');
+    });
+
+    expect(await transport.getMessage(-100, 5)).toBeNull();
+  });
+
+  it('returns a service message without text', async () => {
+    const { transport, telegram } = createTransport(async () => {
+      throw badRequest("Bad Request: message can't be forwarded");
+    });
+
+    expect(await transport.getMessage(-100, 5)).toEqual({ message_id: 5, chat_id: -100 });
+    expect(telegram.deleteMessage).not.toHaveBeenCalled();
+  });
+
+  it('fails in a chat with protected content', async () => {
+    const { transport } = createTransport(async () => {
+      throw badRequest("Bad Request: message has protected content and can't be forwarded");
+    });
+
+    await expect(transport.getMessage(-100, 5)).rejects.toThrow('protected content');
+  });
+
+  it('marks forwarded messages it receives', async () => {
+    const transport = new TelegrafTransport('123:test');
+    const bot = (transport as any).bot;
+    bot.launch = jest.fn(async () => undefined);
+    bot.botInfo = { id: 1, is_bot: true, first_name: 'test', username: 'test_bot' };
+    const received: TransportMessage[] = [];
+    transport.onMessage(message => { received.push(message); });
+    await transport.start();
+
+    const chat = { id: -100, type: 'supergroup', title: 'db' };
+    await bot.handleUpdate({ update_id: 1, message: { message_id: 7, chat, date: 1, text: 'TDB:{}' } });
+    await bot.handleUpdate({ update_id: 2, message: { message_id: 8, chat, date: 1, forward_date: 1, text: 'TDB:{}' } });
+
+    expect(received.map(message => [message.message_id, message.forwarded])).toEqual([[7, false], [8, true]]);
+  });
+});
@@ -0,0 +1,142 @@
+import { Telegraf, Context } from 'telegraf';
+import {
+  Transport,
+  TransportChat,
+  TransportMessage,
+  TransportMessageHandler,
+} from './types';
+
+/** Transport backed by the Telegram Bot API through Telegraf */
+export class TelegrafTransport implements Transport {
+  private bot: Telegraf;
+  private handlers: TransportMessageHandler[] = [];
+  private listening: boolean = false;
+
+  constructor(botToken: string) {
+    this.bot = new Telegraf(botToken);
+  }
+
+  async getMe(): Promise<unknown> {
+    return this.bot.telegram.getMe();
+  }
+
+  async getChat(chatId: string | number): Promise<TransportChat> {
+    const chat = await this.bot.telegram.getChat(chatId) as any;
+    return {
+      id: chat.id,
+      pinned_message: chat.pinned_message
+        ? this.toTransportMessage(chat.pinned_message)
+        : undefined,
+    };
+  }
+
+  async sendMessage(chatId: string | number, text: string): Promise<TransportMessage> {
+    const sent = await this.bot.telegram.sendMessage(chatId, text);
+    return this.toTransportMessage(sent);
+  }
+
+  async editMessageText(
+    chatId: string | number,
+    messageId: number,
+    text: string
+  ): Promise<TransportMessage> {
+    const edited = await this.bot.telegram.editMessageText(chatId, messageId, undefined, text);
+    if (edited === true) {
+      return { message_id: messageId, chat_id: chatId, text };
+    }
+    return this.toTransportMessage(edited);
+  }
+
+  /**
+   * The Bot API has no "get message" method, so the message is forwarded
+   * into the same chat, read from the forward, and the forward is deleted.
+   * That is two API calls per read, and chat members may briefly see the
+   * forward; verify() and repair() read every message this way. Service
+   * messages, such as pin notices, can't be forwarded and come back without text.
+   */
+  async getMessage(chatId: string | number, messageId: number): Promise<TransportMessage | null> {
+    let forwarded: any;
+    try {
+      forwarded = await this.bot.telegram.forwardMessage(chatId, chatId, messageId, {
+        disable_notification: true,
+      });
+    } catch (error: any) {
+      const description: string = error?.description ?? '';
+      if (error?.code === 400 && /not found/i.test(description)) {
+        return null;
+      }
+      // Chats with protected content refuse every forward, so nothing could be read
+      if (error?.code === 400 && /can't be forwarded/i.test(description) && !/protected content/i.test(description)) {
+        return { message_id: messageId, chat_id: chatId };
+      }
+      throw error;
+    }
+
+    try {
+      await this.bot.telegram.deleteMessage(chatId, forwarded.message_id);
+    } catch {
+      // A leftover forward is only a visible duplicate; the index never points at it
+    }
+
+    return {
+      message_id: messageId,
+      chat_id: chatId,
+      text: forwarded.text,
+      date: forwarded.forward_date ?? forwarded.date,
+    };
+  }
+
+  async deleteMessage(chatId: string | number, messageId: number): Promise<boolean> {
+    return this.bot.telegram.deleteMessage(chatId, messageId);
+  }
+
+  async pinMessage(chatId: string | number, messageId: number): Promise<boolean> {
+    return this.bot.telegram.pinChatMessage(chatId, messageId, { disable_notification: true });
+  }
+
+  onMessage(handler: TransportMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async start(): Promise<void> {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+
+    this.bot.on(['message', 'edited_message'], async (ctx: Context) => {
+      const message = ctx.message ?? ctx.editedMessage;
+      if (!message || !('text' in message) || !message.text || !ctx.chat) return;
+
+      const incoming: TransportMessage = {
+        message_id: message.message_id,
+        chat_id: ctx.chat.id,
+        text: message.text,
+        date: message.date,
+        edited: ctx.editedMessage !== undefined,
+        forwarded: 'forward_origin' in message || 'forward_date' in message,
+      };
+      for (const handler of this.handlers) {
+        await handler(incoming);
+      }
+    });
+
+    this.bot.launch().catch(() => {});
+  }
+
+  stop(): void {
+    if (this.listening) {
+      this.bot.stop();
+      this.listening = false;
+    }
+  }
+
+  private toTransportMessage(message: any): TransportMessage {
+    return {
+      message_id: message.message_id,
+      chat_id: message.chat?.id,
+      text: message.text,
+      date: message.date,
+    };
+  }
+}
@@ -0,0 +1,771 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TelegramDB } from './TelegramDB';
+import { MemoryTransport } from './MemoryTransport';
+import { ChangeEvent, Migration, TelegramDBConfig } from './types';
+
+const CHAT_ID = -100123;
+
+describe('TelegramDB', () => {
+  let dir: string;
+  let transport: MemoryTransport;
+  let open: TelegramDB[];
+
+  /** A database on the shared chat with its own index file; closed after the test */
+  function createDb(name: string = 'db', config: Partial<TelegramDBConfig> = {}): TelegramDB {
+    const db = new TelegramDB({
+      chatId: CHAT_ID,
+      transport: open.length === 0 ? transport : transport.connect(),
+      indexFilePath: join(dir, `${name}.json`),
+      batchDelay: 0,
+      listen: false,
+      rateLimit: { perChat: 1000, global: 1000 },
+      ...config,
+    });
+    open.push(db);
+    return db;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tg-db-test-'));
+    transport = new MemoryTransport();
+    open = [];
+  });
+
+  afterEach(async () => {
+    for (const db of open) {
+      await db.close();
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('watch', () => {
+    it('reports changes that match the filter', async () => {
+      const db = createDb();
+      const stream = db.watch({ age: { $gte: 18 } }, 'users');
+      const received: ChangeEvent[] = [];
+      stream.on('change', event => received.push(event));
+
+      await db.insert({ _id: 'a', age: 12 }, 'users');
+      await db.insert({ _id: 'b', age: 30 }, 'users');
+      await db.insert({ _id: 'c', age: 40 }, 'admins');
+      await Promise.resolve();
+
+      expect(received.map(event => [event.type, event.documentId])).toEqual([['insert', 'b']]);
+    });
+
+    it('rejects a filter with an unknown operator up front', () => {
+      const db = createDb();
+
+      expect(() => db.watch({ $where: 'true' } as any)).toThrow('Unknown query operator');
+      expect(() => db.watch({ age: { $near: 1 } } as any)).toThrow('Unknown query operator');
+    });
+  });
+
+  describe('cursors', () => {
+    it('chains options and settles like a promise', async () => {
+      const db = createDb();
+      const users = db.table('users');
+      for (const [name, age] of [['Ann', 30], ['Bob', 20], ['Cy', 40]] as const) {
+        await users.insert({ name, age });
+      }
+
+      const names = await users.find({ age: { $gte: 20 } }).sort({ age: -1 }).skip(1).limit(1).project({ name: 1 });
+      expect(names.map(user => user.name)).toEqual(['Ann']);
+
+      let settled = false;
+      await users.find({}).finally(() => { settled = true; });
+      expect(settled).toBe(true);
+      await expect(users.find({ age: { $near: 1 } } as any).catch(error => error.message))
+        .resolves.toContain('Unknown query operator');
+    });
+  });
+
+  describe('update operators', () => {
+    it('updates every match with operators and inserts on upsert when nothing matches', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', team: 'red', score: 1 }, 'players');
+      await db.insert({ _id: 'b', team: 'red', score: 5 }, 'players');
+
+      const updated = await db.update({ team: 'red' }, { $inc: { score: 10 }, $push: { log: 'bonus' } }, 'players');
+      expect(updated.data.map((doc: any) => doc.score)).toEqual([11, 15]);
+
+      const upserted = await db.update(
+        { _id: 'c', team: 'blue' },
+        { $set: { score: 1 }, $setOnInsert: { joined: 2024 } },
+        'players',
+        { upsert: true }
+      );
+      expect(upserted.success).toBe(true);
+      expect(await db.findById('c', 'players')).toMatchObject({ team: 'blue', score: 1, joined: 2024 });
+
+      expect(await db.update({ team: 'red' }, { $set: { _rev: 9 } } as any, 'players')).toMatchObject({ success: false });
+      expect((await createDb('fresh').findById('b', 'players'))).toMatchObject({ score: 15, log: ['bonus'] });
+    });
+  });
+
+  describe('aggregate', () => {
+    it('runs a pipeline over a table, looking up another', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'c1', name: 'Ann' }, 'customers');
+      await db.insert({ customer: 'c1', total: 5 }, 'orders');
+      await db.insert({ customer: 'c1', total: 7 }, 'orders');
+
+      const result = await db.table('orders').aggregate([
+        { $group: { _id: '$customer', spent: { $sum: '$total' } } },
+        { $lookup: { from: 'customers', localField: '_id', foreignField: '_id', as: 'customer' } },
+      ]);
+
+      expect(result).toMatchObject([{ _id: 'c1', spent: 12, customer: [{ name: 'Ann' }] }]);
+      await expect(db.aggregate([{ $out: 'x' } as any], 'orders')).rejects.toThrow('Unknown pipeline stage');
+    });
+  });
+
+  describe('schemas', () => {
+    it('validates inserts and updates and fills in defaults', async () => {
+      const db = createDb();
+      const users = db.table<{ name: string; role?: string; age?: number }>('users', {
+        schema: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' }, role: { enum: ['admin', 'user'], default: 'user' }, age: { type: 'integer' } },
+        },
+      });
+
+      const inserted = await users.insert({ _id: 'a', name: 'Ann' });
+      expect(inserted.data).toMatchObject({ name: 'Ann', role: 'user' });
+      await users.insert({ _id: 'b', name: 'Bob', age: 20 });
+      const messageCount = transport.getMessages(CHAT_ID).length;
+
+      expect(await db.insert({ role: 'root' }, 'users')).toMatchObject({
+        success: false,
+        code: 'VALIDATION_ERROR',
+        data: { errors: [{ path: 'name', message: 'name is required' }, { path: 'role' }] },
+      });
+      expect(await users.update({}, { $inc: { age: 0.5 } })).toMatchObject({
+        success: false,
+        code: 'VALIDATION_ERROR',
+        data: { documentId: 'a' },
+      });
+      expect((await users.findById('b'))?.age).toBe(20);
+      expect(transport.getMessages(CHAT_ID)).toHaveLength(messageCount);
+    });
+
+    it('rejects a malformed schema when the table is opened', () => {
+      const db = createDb();
+
+      expect(() => db.table('users', { schema: { properties: { age: { type: 'int' as any } } } })).toThrow('Unknown schema type at age: int');
+    });
+  });
+
+  describe('expiry', () => {
+    /** Document messages whose id starts with `prefix` */
+    function messagesOf(prefix: string) {
+      return transport.getMessages(CHAT_ID).filter(message => message.text?.startsWith(`TDB:{"_id":"${prefix}`));
+    }
+
+    it('sets expireAt from the table TTL unless the document has one', async () => {
+      const db = createDb();
+      const sessions = db.table('sessions', { ttl: '1h' });
+
+      const before = Date.now();
+      const inserted = await sessions.insert({ _id: 'a' });
+      expect(inserted.data.expireAt).toBeGreaterThanOrEqual(before + 60 * 60 * 1000);
+      expect((await sessions.insert({ _id: 'b', expireAt: 42 })).data.expireAt).toBe(42);
+      expect(() => db.table('sessions', { ttl: '1y' })).toThrow('Invalid duration: 1y');
+    });
+
+    it('hides expired documents from reads before they are deleted', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', expireAt: Date.now() - 1 }, 'sessions');
+      await db.insert({ _id: 'b', expireAt: new Date(Date.now() + 60000).toISOString() }, 'sessions');
+
+      expect(await db.findById('a', 'sessions')).toBeNull();
+      expect((await db.find({}, 'sessions')).map(doc => doc._id)).toEqual(['b']);
+      expect(await db.count({}, 'sessions')).toBe(1);
+      expect(messagesOf('a')).toHaveLength(1);
+    });
+
+    it('deletes expired documents from the chat in batches', async () => {
+      const db = createDb('db', { ttlSweepBatchSize: 2 });
+      for (let i = 0; i < 5; i++) {
+        await db.insert({ _id: `old-${i}`, expireAt: Date.now() - 1 }, 'sessions');
+      }
+      await db.insert({ _id: 'new' }, 'sessions');
+
+      const result = await db.sweepExpired();
+
+      expect(result).toMatchObject({ success: true, data: { deletedCount: 5 } });
+      expect(messagesOf('old-')).toHaveLength(0);
+      expect((await createDb('fresh').find({}, 'sessions')).map(doc => doc._id)).toEqual(['new']);
+    });
+
+    it('sweeps in the background every ttlSweepInterval', async () => {
+      const db = createDb('db', { ttlSweepInterval: 10 });
+      await db.insert({ _id: 'a', expireAt: Date.now() + 20 }, 'sessions');
+
+      expect(messagesOf('a')).toHaveLength(1);
+      for (let waited = 0; messagesOf('a').length > 0 && waited < 2000; waited += 10) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(messagesOf('a')).toHaveLength(0);
+      expect(await createDb('fresh').findById('a', 'sessions')).toBeNull();
+    });
+  });
+
+  describe('transactions', () => {
+    it('commits every change at once, visible to a fresh instance', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'book', available: 1 }, 'stock');
+
+      const result = await db.transaction(async tx => {
+        await tx.update({ _id: 'book' }, { $inc: { available: -1 } }, 'stock');
+        const order = await tx.insert({ item: 'book' }, 'orders');
+        return order._id;
+      });
+      expect(result.success).toBe(true);
+
+      const fresh = createDb('fresh');
+      expect((await fresh.findById('book', 'stock'))?.available).toBe(0);
+      expect(await fresh.findById(result.data, 'orders')).not.toBeNull();
+      expect((await fresh.verify()).success).toBe(true);
+    });
+
+    it('writes nothing when the function throws', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'book', available: 0 }, 'stock');
+      const messageCount = transport.getMessages(CHAT_ID).length;
+
+      const result = await db.transaction(async tx => {
+        await tx.insert({ item: 'book' }, 'orders');
+        const [stock] = await tx.update({ _id: 'book' }, { $inc: { available: -1 } }, 'stock');
+        if (stock.available < 0) {
+          throw new Error('Out of stock');
+        }
+      });
+
+      expect(result).toMatchObject({ success: false, message: expect.stringContaining('Out of stock') });
+      expect(await db.find({}, 'orders')).toEqual([]);
+      expect((await db.findById('book', 'stock'))?.available).toBe(0);
+      expect(transport.getMessages(CHAT_ID)).toHaveLength(messageCount);
+    });
+
+    it('fails with CONFLICT when another client changed a document it touched', async () => {
+      const db = createDb('db', { listen: true });
+      const other = createDb('other');
+      await db.insert({ _id: 'book', available: 1 }, 'stock');
+
+      const result = await db.transaction(async tx => {
+        await tx.update({ _id: 'book' }, { $inc: { available: -1 } }, 'stock');
+        await other.update({ _id: 'book' }, { available: 5 }, 'stock');
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'CONFLICT' });
+      expect((await db.findById('book', 'stock'))?.available).toBe(5);
+    });
+  });
+
+  describe('journal', () => {
+    it('replays changes that were never flushed to the index file', async () => {
+      const crashed = createDb('db', { indexWriteMode: 'deferred', indexFlushInterval: 60000, lockIndexFile: false });
+      await crashed.insert({ _id: 'a', n: 1 }, 'users');
+      await crashed.update({ _id: 'a' }, { n: 2 }, 'users');
+      await crashed.insert({ _id: 'b', n: 3 }, 'users');
+      await crashed.deleteById('b', 'users');
+      // A crash in the middle of appending
+      appendFileSync(join(dir, 'db.json.journal'), '{"op":"set","id":"c"');
+
+      const restarted = createDb('db', { lockIndexFile: false });
+
+      expect(await restarted.find({}, 'users')).toMatchObject([{ _id: 'a', n: 2 }]);
+      expect((await restarted.verify()).success).toBe(true);
+    });
+  });
+
+  describe('large documents', () => {
+    it('stores a document over the message limit as parts that other clients read back', async () => {
+      const db = createDb();
+      const readerTransport = transport.connect();
+      const reader = createDb('reader', { transport: readerTransport, listen: true });
+      await reader.initialize();
+      const text = 'All work and no play makes Jack a dull boy. '.repeat(300);
+
+      const result = await db.insert({ _id: 'essay', text }, 'notes');
+
+      expect(result.success).toBe(true);
+      const parts = transport.getMessages(CHAT_ID).filter(message => message.text?.startsWith('TDB:PART:'));
+      expect(parts.length).toBeGreaterThan(1);
+      expect(parts.every(message => message.text!.length <= 4096)).toBe(true);
+      expect((await reader.findById('essay', 'notes'))?.text).toBe(text);
+      expect((await createDb('fresh').findById('essay', 'notes'))?.text).toBe(text);
+      expect((await db.verify({ scan: true })).success).toBe(true);
+    });
+  });
+
+  describe('updates in place', () => {
+    /** Ids of the messages holding a document, in the order they were sent */
+    function messageIdsOf(id: string): number[] {
+      return transport.getMessages(CHAT_ID)
+        .filter(message => !message.text?.startsWith('TDB:INDEX') && message.text?.includes(`"${id}"`))
+        .map(message => message.message_id);
+    }
+
+    it('edits the document\'s message instead of sending a new one', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann' }, 'users');
+      const before = messageIdsOf('a');
+      const sent = transport.getCallCount('sendMessage');
+
+      await db.updateById('a', { name: 'Anna' }, 'users');
+
+      expect(messageIdsOf('a')).toEqual(before);
+      expect(transport.getCallCount('sendMessage')).toBe(sent);
+      expect((await createDb('fresh').findById('a', 'users'))?.name).toBe('Anna');
+    });
+
+    it('sends or deletes parts when the document grows or shrinks', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', text: 'short' }, 'notes');
+      const [first] = messageIdsOf('a');
+
+      await db.updateById('a', { text: 'long '.repeat(2000) }, 'notes');
+      const grown = messageIdsOf('a');
+      expect(grown.length).toBeGreaterThan(1);
+      expect(grown[0]).toBe(first);
+
+      await db.updateById('a', { text: 'short again' }, 'notes');
+      expect(messageIdsOf('a')).toEqual([first]);
+      expect((await db.verify({ scan: true })).success).toBe(true);
+    });
+
+    it('sends the document again when its message is gone', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann' }, 'users');
+      await transport.connect().deleteMessage(CHAT_ID, messageIdsOf('a')[0]);
+
+      expect((await db.updateById('a', { name: 'Anna' }, 'users')).success).toBe(true);
+
+      expect(messageIdsOf('a')).toHaveLength(1);
+      expect((await db.verify()).success).toBe(true);
+    });
+  });
+
+  describe('chat index', () => {
+    it('rewrites only the changed page and edits the pinned root in place', async () => {
+      const db = createDb();
+      for (let i = 0; i < 200; i++) {
+        await db.insert({ _id: `user-${i}`, name: `User ${i}` }, 'users');
+      }
+      const root = JSON.parse((await transport.getChat(CHAT_ID)).pinned_message!.text!.slice('TDB:INDEX:'.length));
+      expect(root.pages.length).toBeGreaterThan(2);
+      const calls = transport.getCallCount();
+      const edits = transport.getCallCount('editMessageText');
+      const messageCount = transport.getMessages(CHAT_ID).length;
+
+      await db.updateById('user-0', { name: 'Ann' }, 'users');
+
+      // The document, its page and the root, with no new pin notice
+      expect(transport.getCallCount() - calls).toBe(3);
+      expect(transport.getCallCount('editMessageText') - edits).toBe(3);
+      expect(transport.getMessages(CHAT_ID)).toHaveLength(messageCount);
+    });
+
+    it('is read by a fresh client, pages and deletions included', async () => {
+      const db = createDb();
+      for (let i = 0; i < 100; i++) {
+        await db.insert({ _id: `user-${i}` }, 'users');
+      }
+      for (let i = 0; i < 50; i++) {
+        await db.deleteById(`user-${i}`, 'users');
+      }
+      await db.updateById('user-99', { name: 'Zoe' }, 'users');
+
+      const fresh = createDb('fresh');
+
+      expect(await fresh.count({}, 'users')).toBe(50);
+      expect((await fresh.findById('user-99', 'users'))?.name).toBe('Zoe');
+      expect((await fresh.verify({ scan: true })).success).toBe(true);
+    });
+
+    it('keeps other clients current through edited pages', async () => {
+      const writer = createDb('writer');
+      for (let i = 0; i < 100; i++) {
+        await writer.insert({ _id: `user-${i}` }, 'users');
+      }
+      const readerTransport = transport.connect();
+      const reader = createDb('reader', { transport: readerTransport, listen: true });
+      expect(await reader.count({}, 'users')).toBe(100);
+      const reads = readerTransport.getCallCount('getMessage');
+
+      await writer.deleteById('user-0', 'users');
+      await writer.updateById('user-99', { name: 'Zoe' }, 'users');
+
+      expect(await reader.findById('user-0', 'users')).toBeNull();
+      expect((await reader.findById('user-99', 'users'))?.name).toBe('Zoe');
+      expect(readerTransport.getCallCount('getMessage')).toBe(reads);
+    });
+
+    it('reads an index written as a single message and pages it on the next write', async () => {
+      const doc = { _id: 'a', _table: 'users', _rev: 1, name: 'Ann' };
+      const stored = await transport.injectMessage(CHAT_ID, `TDB:${JSON.stringify(doc)}`);
+      const index = await transport.injectMessage(CHAT_ID, `TDB:INDEX:${JSON.stringify({
+        _id: '__INDEX__',
+        _table: '__SYSTEM__',
+        messageIndex: [['a', stored.message_id]],
+        documents: [doc],
+        updatedAt: 1,
+      })}`);
+      await transport.pinMessage(CHAT_ID, index.message_id);
+      const db = createDb();
+
+      expect((await db.findById('a', 'users'))?.name).toBe('Ann');
+      await db.insert({ _id: 'b' }, 'users');
+
+      const pinned = (await transport.getChat(CHAT_ID)).pinned_message!;
+      expect(pinned.message_id).toBe(index.message_id);
+      expect(JSON.parse(pinned.text!.slice('TDB:INDEX:'.length)).pages).toHaveLength(1);
+      expect(await createDb('fresh').count({}, 'users')).toBe(2);
+    });
+  });
+
+  describe('compact encoding', () => {
+    it('stores compressed messages that clients with other codec settings read', async () => {
+      const db = createDb('db', { codec: { compression: 'brotli', encoding: 'base16k' } });
+      const text = 'Telegram as a database. '.repeat(400);
+      await db.insert({ _id: 'a', text }, 'notes');
+
+      const stored = transport.getMessages(CHAT_ID).filter(message => message.text?.startsWith('TDB:C1:brotli.base16k:'));
+      expect(stored).toHaveLength(1);
+      expect(stored[0].text!.length).toBeLessThan(text.length / 10);
+      expect((await createDb('fresh').findById('a', 'notes'))?.text).toBe(text);
+    });
+  });
+
+  describe('encryption', () => {
+    it('keeps documents and the index unreadable in the chat', async () => {
+      const db = createDb('db', { encryption: { key: 'secret' } });
+      await db.insert({ _id: 'a', name: 'Ann', email: 'ann@example.com' }, 'users');
+
+      expect(transport.getMessages(CHAT_ID).some(message => message.text?.includes('ann@example.com'))).toBe(false);
+      expect((await createDb('fresh', { encryption: { key: 'secret' } }).findById('a', 'users'))?.email)
+        .toBe('ann@example.com');
+    });
+
+    it('rotates the key with reencrypt, reading old messages with previousKeys', async () => {
+      const old = createDb('db', { encryption: { key: 'old' } });
+      await old.insert({ _id: 'a', name: 'Ann' }, 'users');
+      await old.close();
+
+      const rotated = createDb('db', { encryption: { key: 'new', previousKeys: ['old'] } });
+      expect((await rotated.reencrypt()).data).toEqual({ rewrittenCount: 1 });
+      await rotated.close();
+
+      const fresh = createDb('fresh', { encryption: { key: 'new' } });
+      expect((await fresh.findById('a', 'users'))?.name).toBe('Ann');
+      expect((await fresh.verify()).success).toBe(true);
+    });
+
+    it('refuses to start when the chat index can\'t be decrypted', async () => {
+      const db = createDb('db', { encryption: { key: 'secret' } });
+      await db.insert({ _id: 'a', name: 'Ann' }, 'users');
+
+      await expect(createDb('wrong', { encryption: { key: 'guess' } }).initialize())
+        .rejects.toThrow('The index in the chat can\'t be read: Data is encrypted with an unknown key');
+      await expect(createDb('missing').initialize())
+        .rejects.toThrow('no encryption key is configured');
+    });
+
+    it('refuses to start when the chat index was modified', async () => {
+      const db = createDb('db', { encryption: { key: 'secret', fields: ['name'] } });
+      await db.insert({ _id: 'a', name: 'Ann' }, 'users');
+      const page = transport.getMessages(CHAT_ID).find(message => message.text?.startsWith('TDB:INDEX:PART:'))!;
+      const other = transport.connect();
+      await other.editMessageText(CHAT_ID, page.message_id, page.text!.replace('"_id":"a"', '"_id":"b"'));
+
+      await expect(createDb('fresh', { encryption: { key: 'secret', fields: ['name'] } }).initialize())
+        .rejects.toThrow('The index in the chat can\'t be read');
+    });
+  });
+
+  describe('unique indexes', () => {
+    it('rejects inserts and updates that would store a value twice', async () => {
+      const db = createDb();
+      expect((await db.createIndex('email', 'users', { unique: true })).success).toBe(true);
+      await db.insert({ _id: 'a', email: 'ann@example.com' }, 'users');
+      await db.insert({ _id: 'b', email: 'bob@example.com' }, 'users');
+
+      expect(await db.insert({ email: 'ann@example.com' }, 'users')).toMatchObject({ success: false, code: 'DUPLICATE_KEY' });
+      expect(await db.updateById('b', { email: 'ann@example.com' }, 'users')).toMatchObject({ success: false, code: 'DUPLICATE_KEY' });
+      expect((await db.updateById('b', { email: 'bo@example.com' }, 'users')).success).toBe(true);
+      expect((await db.insert({ email: 'bob@example.com' }, 'users')).success).toBe(true);
+    });
+
+    it('refuses to create a unique index over duplicates', async () => {
+      const db = createDb();
+      await db.insert({ email: 'ann@example.com' }, 'users');
+      await db.insert({ email: 'ann@example.com' }, 'users');
+
+      expect(await db.createIndex('email', 'users', { unique: true })).toMatchObject({ success: false, code: 'DUPLICATE_KEY' });
+    });
+
+    it('is enforced by clients that load it from the chat', async () => {
+      const db = createDb();
+      await db.createIndex('email', 'users', { unique: true });
+      await db.insert({ email: 'ann@example.com' }, 'users');
+
+      const other = createDb('other');
+      expect(await other.insert({ email: 'ann@example.com' }, 'users')).toMatchObject({ code: 'DUPLICATE_KEY' });
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    it('checks ifRev against the cache, kept current by other clients\' updates', async () => {
+      const writer = createDb('writer');
+      const readerTransport = transport.connect();
+      const reader = createDb('reader', { transport: readerTransport, listen: true });
+      await writer.insert({ _id: 'a', balance: 10 }, 'accounts');
+      const seen = await reader.findById('a', 'accounts');
+      // Reading the index's pages on startup
+      const reads = readerTransport.getCallCount('getMessage');
+      await writer.update({ _id: 'a' }, { $inc: { balance: -5 } }, 'accounts');
+
+      const result = await reader.update({ _id: 'a' }, { $inc: { balance: -10 } }, 'accounts', { ifRev: seen!._rev });
+
+      expect(result).toMatchObject({ success: false, code: 'CONFLICT' });
+      expect(readerTransport.getCallCount('getMessage')).toBe(reads);
+    });
+  });
+
+  describe('history', () => {
+    it('keeps typed versions and restores an earlier one', async () => {
+      const db = createDb();
+      const accounts = db.table<{ balance: number }>('accounts', { history: true });
+      await accounts.insert({ _id: 'a', balance: 10 });
+      await accounts.updateById('a', { balance: 20 });
+
+      const versions = await accounts.findHistory('a');
+      expect(versions.map(version => version.doc.balance)).toEqual([10, 20]);
+      expect(versions[1].validTo).toBeNull();
+
+      await accounts.restoreVersion('a', versions[0].doc._rev!);
+      expect((await accounts.findById('a'))?.balance).toBe(10);
+    });
+  });
+
+  describe('migrations', () => {
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        table: 'users',
+        up: ({ name, ...user }) => ({ ...user, first: name.split(' ')[0], last: name.split(' ')[1] }),
+        down: ({ first, last, ...user }) => ({ ...user, name: `${first} ${last}` }),
+      },
+      {
+        version: 2,
+        table: 'users',
+        up: user => user.last === 'Gone' ? null : { ...user, active: true },
+        down: ({ active, ...user }) => user,
+      },
+    ];
+
+    it('migrates tables up and rolls them back, recording their versions', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann Lee' }, 'users');
+      await db.insert({ _id: 'b', name: 'Bob Gone' }, 'users');
+
+      const migrated = await db.migrate(migrations);
+      expect(migrated.success).toBe(true);
+      expect(migrated.data.tables).toEqual([{
+        table: 'users', fromVersion: 0, toVersion: 2, direction: 'up', versions: [1, 2], updatedCount: 1, deletedCount: 1,
+      }]);
+      const fresh = createDb('fresh');
+      expect(await fresh.find({}, 'users')).toMatchObject([{ _id: 'a', first: 'Ann', last: 'Lee', active: true }]);
+      expect(await fresh.getMigrationVersions()).toEqual({ users: 2 });
+      expect((await db.migrate(migrations)).message).toBe('No migrations to run');
+
+      const rolledBack = await db.migrate(migrations, { to: 0 });
+      expect(rolledBack.data.tables[0]).toMatchObject({ direction: 'down', versions: [2, 1] });
+      expect(await db.findById('a', 'users')).toMatchObject({ name: 'Ann Lee' });
+      expect(await db.findById('a', 'users')).not.toHaveProperty('active');
+      expect(await db.getMigrationVersions()).toEqual({ users: 0 });
+    });
+
+    it('changes nothing when a step throws, and releases the lock', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann Lee' }, 'users');
+      await db.insert({ _id: 'b', name: 'Cy' }, 'users');
+      const failing = [{ ...migrations[0], up: (user: any) => ({ ...user, initial: user.name.split(' ')[1][0] }) }];
+
+      const failed = await db.migrate(failing);
+
+      expect(failed.success).toBe(false);
+      expect(await db.find({}, 'users', { sort: { _id: 1 } })).toMatchObject([{ name: 'Ann Lee' }, { name: 'Cy' }]);
+      expect(await db.getMigrationVersions()).toEqual({});
+      expect((await db.migrate(migrations, { to: 1, table: 'users', dryRun: true })).message).toMatch(/^Dry run: users 0 -> 1/);
+      expect((await db.migrate(failing.map(migration => ({ ...migration, up: (user: any) => user })))).success).toBe(true);
+    });
+
+    it('lets one process migrate at a time', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann Lee' }, 'users');
+      await db.migrate(migrations, { to: 1 });
+      const other = createDb('other');
+      await other.getMigrationVersions();
+
+      const first = db.migrate(migrations);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const second = await other.migrate(migrations);
+
+      expect(second).toMatchObject({ success: false, code: 'LOCKED' });
+      expect((await first).success).toBe(true);
+      expect(await db.findById('a', 'users')).toMatchObject({ active: true });
+    });
+  });
+
+  describe('sharding', () => {
+    it('stores documents in their shard chat and the index in the first', async () => {
+      const config = { chatId: { chats: [CHAT_ID, -100456], by: 'id' as const, tables: { logs: -100789 } } };
+      const db = createDb('db', config);
+      for (let i = 0; i < 6; i++) {
+        await db.insert({ _id: `user-${i}`, n: i }, 'users');
+      }
+      await db.insert({ _id: 'log', text: 'started' }, 'logs');
+      await db.update({ _id: 'user-1' }, { $inc: { n: 10 } }, 'users');
+
+      const documentsIn = (chatId: number) => transport.getMessages(chatId).filter(message => message.text?.startsWith('TDB:{"_id":"user-'));
+      expect(documentsIn(CHAT_ID).length).toBeGreaterThan(0);
+      expect(documentsIn(-100456).length).toBeGreaterThan(0);
+      expect(documentsIn(CHAT_ID).length + documentsIn(-100456).length).toBe(6);
+      expect(transport.getMessages(-100789).map(message => message.text)).toEqual([expect.stringContaining('"_id":"log"')]);
+      expect(transport.getMessages(-100456).some(message => message.text?.startsWith('TDB:INDEX'))).toBe(false);
+
+      const fresh = createDb('fresh', config);
+      expect((await fresh.find({}, 'users', { sort: { _id: 1 } })).map(doc => doc.n)).toEqual([0, 11, 2, 3, 4, 5]);
+      const stats = await fresh.getStats();
+      expect(stats.totalDocuments).toBe(7);
+      expect(stats.shards?.map(shard => [shard.chatId, shard.documents]).sort()).toEqual([
+        [-100123, documentsIn(CHAT_ID).length],
+        [-100456, documentsIn(-100456).length],
+        [-100789, 1],
+      ].sort());
+    });
+  });
+
+  describe('export and import', () => {
+    it('round-trips tables through a file', async () => {
+      const source = createDb('source');
+      await source.insert({ _id: 'a', name: 'Ann' }, 'users');
+      await source.insert({ _id: 'b', name: 'Bob' }, 'users');
+      await source.insert({ _id: 'p', title: 'Hi' }, 'posts');
+      const path = join(dir, 'users.csv');
+
+      const exported = await source.export(path, { tables: ['users'] });
+      expect(exported.data).toEqual({ exportedCount: 2, tables: ['users'] });
+
+      const target = createDb('target', { chatId: -100456 });
+      const imported = await target.import(path);
+      expect(imported.success).toBe(true);
+      expect(imported.data).toEqual({ importedCount: 2, skippedCount: 0, failed: [] });
+      expect(await target.find({}, 'users', { sort: { _id: 1 } })).toMatchObject([{ _id: 'a', name: 'Ann' }, { _id: 'b', name: 'Bob' }]);
+      expect(await target.getTables()).toEqual(['users']);
+    });
+
+    it('reports, skips or overwrites documents whose id exists', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann' }, 'users');
+      const path = join(dir, 'dump.jsonl');
+      appendFileSync(path, '{"_id":"a","_table":"users","name":"Anna"}\nnot json\n{"_id":"b","_table":"users","name":"Bob"}\n');
+
+      const failed = await db.import(path);
+      expect(failed.success).toBe(false);
+      expect(failed.data.importedCount).toBe(1);
+      expect(failed.data.failed.map((failure: any) => [failure.position, failure.code])).toEqual([[1, 'DUPLICATE_KEY'], [2, undefined]]);
+
+      expect((await db.import(path, { onConflict: 'skip' })).data).toMatchObject({ importedCount: 0, skippedCount: 2 });
+      expect((await db.import(path, { onConflict: 'overwrite' })).data).toMatchObject({ importedCount: 2 });
+      expect((await db.findById('a', 'users'))?.name).toBe('Anna');
+
+      expect((await db.import(path, { ids: 'regenerate' })).data.importedCount).toBe(2);
+      expect(await db.count({}, 'users')).toBe(4);
+    });
+  });
+
+  describe('dry runs', () => {
+    it('counts the documents rebalance would move without moving them', async () => {
+      const single = createDb();
+      for (let i = 0; i < 10; i++) {
+        await single.insert({ _id: `user-${i}` }, 'users');
+      }
+      await single.close();
+
+      const sharded = createDb('db', { chatId: { chats: [CHAT_ID, -100456], by: 'id' } });
+      const preview = await sharded.rebalance({ dryRun: true });
+      expect(preview.data.dryRun).toBe(true);
+      expect(preview.data.movedCount).toBeGreaterThan(0);
+      expect(transport.getMessages(-100456)).toHaveLength(0);
+
+      const result = await sharded.rebalance();
+      expect(result.data.movedCount).toBe(preview.data.movedCount);
+      expect((await sharded.rebalance({ dryRun: true })).data.movedCount).toBe(0);
+    });
+
+    it('reports what the pinned index holds without applying it', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a' }, 'users');
+      await db.insert({ _id: 'b' }, 'posts');
+
+      const result = await db.rebuildIndex({ dryRun: true });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toMatch(/^Dry run/);
+      expect(result.data).toMatchObject({ documentCount: 2, missingDocuments: [] });
+      expect(result.data.tables.sort()).toEqual(['posts', 'users']);
+    });
+  });
+
+  describe('verify and repair', () => {
+    /** The message holding a document, found by its id */
+    function messageOf(id: string) {
+      return transport.getMessages(CHAT_ID).find(message =>
+        !message.text?.startsWith('TDB:INDEX') && message.text?.includes(`"_id":"${id}"`)
+      )!;
+    }
+
+    it('accepts documents with undefined fields', async () => {
+      const db = createDb();
+      await db.insert({ _id: 'a', name: 'Ann', nickname: undefined }, 'users');
+      await db.update({ _id: 'a' }, { email: undefined }, 'users');
+
+      const result = await db.verify();
+
+      expect(result.success).toBe(true);
+      expect(result.data.mismatched).toEqual([]);
+    });
+
+    it('finds and repairs missing, changed and orphaned messages', async () => {
+      const db = createDb();
+      const other = transport.connect();
+      await db.insert({ _id: 'a', n: 1 }, 'users');
+      await db.insert({ _id: 'b', n: 2 }, 'users');
+      await other.deleteMessage(CHAT_ID, messageOf('a').message_id);
+      await other.editMessageText(CHAT_ID, messageOf('b').message_id, `TDB:${JSON.stringify({ _id: 'b', _table: 'users', _rev: 1, n: 99 })}`);
+      await other.sendMessage(CHAT_ID, `TDB:${JSON.stringify({ _id: 'c', _table: 'users', _rev: 1, n: 3 })}`);
+      // The scan stops at the newest indexed message
+      await db.insert({ _id: 'd', n: 4 }, 'users');
+
+      const found = await db.verify({ scan: true });
+      expect(found.success).toBe(false);
+      expect(found.data).toMatchObject({ missing: ['a'], mismatched: ['b'] });
+      expect(found.data.orphaned.map((stray: any) => stray.documentId)).toEqual(['c']);
+
+      const repaired = await db.repair({ scan: true, orphaned: 'adopt' });
+      expect(repaired.success).toBe(true);
+
+      expect((await db.verify({ scan: true })).success).toBe(true);
+      expect((await db.find({}, 'users', { sort: { _id: 1 } })).map(doc => [doc._id, doc.n])).toEqual([['a', 1], ['b', 2], ['c', 3], ['d', 4]]);
+    });
+  });
+});
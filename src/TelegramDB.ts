@@ -1,52 +1,322 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile, writeFile, appendFile, rename, unlink, mkdir } from 'fs/promises';
 import { dirname } from 'path';
+import { createHash } from 'crypto';
 import { existsSync } from 'fs';
-import { Telegraf, Context } from 'telegraf';
+import { Readable, Writable } from 'stream';
 import {
   TelegramDBConfig,
+  Transport,
+  TransportMessage,
   Document,
   QueryFilter,
+  FindOptions,
   UpdateOptions,
+  UpdateSpec,
+  PipelineStage,
   OperationResult,
   BatchOptions,
   DatabaseStats,
+  IndexRebuildReport,
+  RebuildIndexOptions,
+  RebalanceOptions,
+  SchedulerMetrics,
+  IndexDefinition,
+  IndexOptions,
+  DuplicateKeyError,
+  RevisionConflict,
+  TableOptions,
+  TableSchema,
+  ValidationIssue,
+  ChangeEvent,
+  ChangeSource,
+  MessagePart,
+  ExportOptions,
+  ImportOptions,
+  MigrateOptions,
+  ImportReport,
+  ImportProgress,
+  VerifyReport,
+  VerifyOptions,
+  StrayMessages,
+  RepairOptions,
+  RepairReport,
+  ShardStats,
+  Migration,
+  MigrationOptions,
+  MigrationReport,
+  DocumentVersion,
 } from './types';
 import {
   encodeDocument,
   decodeDocument,
+  encodePayload,
+  encodeDocumentParts,
+  decodeDocumentParts,
+  encodeParts,
+  decodePart,
+  joinParts,
   matchesFilter,
+  applyFindOptions,
   generateId,
   deepMerge,
+  isEqual,
+  compareVersions,
+  parseDuration,
+  isExpired,
 } from './utils';
+import { isOperatorUpdate, applyUpdateOperators, createUpsertDocument } from './updateOperators';
+import { runPipeline } from './aggregate';
+import { assertValidSchema, applySchemaDefaults, validateDocument } from './schema';
 import { TableHandler } from './TableHandler';
+import { TelegrafTransport } from './TelegrafTransport';
+import { TELEGRAM_MAX_MESSAGE_LENGTH } from './MemoryTransport';
+import { RequestScheduler } from './RequestScheduler';
+import { ScheduledTransport } from './ScheduledTransport';
+import { SecondaryIndex } from './SecondaryIndex';
+import { DocumentCipher } from './DocumentCipher';
+import { PayloadCodec } from './PayloadCodec';
+import { ChangeStream } from './ChangeStream';
+import { Transaction, TransactionError, TransactionWrite } from './Transaction';
+import { inferDumpFormat, writeDump, readDump } from './dump';
+import { ShardRouter, sameChat } from './ShardRouter';
+import { assertValidMigrations, planMigrations, migrateDocument } from './migrations';
+import { encodeIndexFile, readIndexFile, writeIndexFileAtomic, lockIndexFile, unlockIndexFile } from './indexFile';
+
+/** Id of the system document recording applied migrations */
+const MIGRATIONS_ID = '__MIGRATIONS__';
+/** Ms to wait after taking the migration lock before checking no other process overwrote it */
+const MIGRATION_LOCK_SETTLE = 1000;
+/** Characters of a message kept free for the part header when filling an index page */
+const INDEX_PART_HEADER_ROOM = 64;
+
+/**
+ * Older index files store a single message id per document. The chat is
+ * given for documents stored outside the primary chat.
+ */
+type MessageIndexEntry = [string, number | number[], (string | number)?];
 
 interface IndexFile {
-  messageIndex: [string, number][];
+  messageIndex: MessageIndexEntry[];
   documents: Document[];
+  indexes?: IndexDefinition[];
+  transactions?: Array<[string, string]>;
+  history?: Array<[string, HistoryEntry]>;
   indexMessageId: number | null;
+  indexPages?: IndexPage[];
   updatedAt: number;
 }
 
+/** The whole chat index. Older versions wrote it as one `INDEX:` message of this shape. */
+interface IndexMessageData {
+  _id: '__INDEX__';
+  _table: '__SYSTEM__';
+  messageIndex: MessageIndexEntry[];
+  documents: Document[];
+  indexes?: IndexDefinition[];
+  transactions?: Array<[string, string]>;
+  history?: Array<[string, HistoryEntry]>;
+  updatedAt: number;
+  /** Pages it was read from; none for a single message */
+  pages?: IndexPage[];
+}
+
+/**
+ * Pinned root of the chat index, edited in place on every write. Entries
+ * live in pages of `INDEX:PART:` messages; `pages` lists their message ids.
+ */
+interface IndexRootData {
+  _id: '__INDEX__';
+  _table: '__SYSTEM__';
+  pages: number[][];
+  indexes?: IndexDefinition[];
+  updatedAt: number;
+}
+
+/** The entries of some documents, stored as one page of the chat index */
+interface IndexPageData {
+  messageIndex: MessageIndexEntry[];
+  documents: Document[];
+  transactions: Array<[string, string]>;
+  history: Array<[string, HistoryEntry]>;
+}
+
+/** A page of the chat index. A document stays on its page until it is removed. */
+interface IndexPage {
+  /** Part id of the page's messages */
+  key: string;
+  ids: string[];
+  messageIds: number[];
+  /** sha256 of the page's content as last written; a page is only rewritten when it changes */
+  hash: string;
+}
+
+/** Previous versions of a document in a table with history, oldest first */
+interface HistoryEntry {
+  /** When the current version was written; absent once deleted, or if it predates the history */
+  since?: number;
+  versions: ArchivedVersion[];
+}
+
+interface ArchivedVersion {
+  doc: Document;
+  /** null if written before history was enabled */
+  from: number | null;
+  to: number;
+  deleted?: boolean;
+}
+
+/** Retention of a table's history, with `maxAge` in ms */
+interface HistoryRetention {
+  maxVersions?: number;
+  maxAge?: number;
+}
+
+/**
+ * One change recorded in the local journal between index flushes. Changes in
+ * tables with history carry the document's new `history`; null drops it.
+ */
+type JournalEntry =
+  | {
+      op: 'set';
+      id: string;
+      messageIds: number[];
+      chatId?: string | number;
+      doc: Document;
+      tx?: string;
+      history?: HistoryEntry | null;
+      at: number;
+    }
+  | { op: 'delete'; id: string; history?: HistoryEntry | null; at: number }
+  | { op: 'history'; id: string; history: HistoryEntry | null; at: number }
+  | { op: 'indexes'; definitions: IndexDefinition[]; at: number };
+
+/** A document as it was before a transaction wrote it */
+interface TransactionSnapshot {
+  id: string;
+  doc: Document | null;
+  messageIds: number[];
+  /** Chat of the document, or the one it is inserted into; absent for the primary chat */
+  chatId?: string | number;
+}
+
+/** One line of the transaction log, from which an interrupted commit is finished or undone */
+type TransactionLogEntry =
+  | { op: 'begin'; tx: string; previous: TransactionSnapshot[]; at: number }
+  | { op: 'written'; id: string; messageIds: number[] }
+  | { op: 'commit'; changes: JournalEntry[]; at: number };
+
+/** Sent once all documents of a transaction are written; other clients apply them only then */
+interface TransactionMarker {
+  _id: string;
+  _table: '__SYSTEM__';
+  deleted: string[];
+}
+
+/** Applied migration versions per table, and the lock of a process running migrations */
+interface MigrationRecord extends Document {
+  _id: typeof MIGRATIONS_ID;
+  _table: '__SYSTEM__';
+  versions: { [table: string]: number };
+  lock?: { owner: string; at: number };
+}
+
+interface PendingParts {
+  parts: MessagePart[];
+  messageIds: Map<number, number>;
+}
+
 /** Uses Telegram chat messages to store and retrieve data */
 export class TelegramDB {
-  private bot: Telegraf;
+  private transport: Transport;
+  private router: ShardRouter;
+  /** Primary chat: holds the index, and all documents unless sharded */
   private chatId: string | number;
   private prefix: string;
   private batchDelay: number;
-  private maxRetries: number;
+  private scheduler: RequestScheduler;
+  private maxMessageLength: number;
+  private cipher?: DocumentCipher;
+  private codec: PayloadCodec;
   private indexFilePath: string;
+  private indexBackups: number;
+  private lockIndexFile: boolean;
+  private indexFileLocked: boolean = false;
   private initialized: boolean = false;
-  private messageIndex: Map<string, number> = new Map();
+  private messageIndex: Map<string, number[]> = new Map();
+  /** Chat of each document stored outside the primary chat */
+  private documentChats: Map<string, string | number> = new Map();
   private documentCache: Map<string, Document> = new Map();
+  /** Document ids per table, in insertion order */
+  private tableIndex: Map<string, Set<string>> = new Map();
+  private indexDefinitions: IndexDefinition[] = [];
+  private secondaryIndexes: Map<string, SecondaryIndex[]> = new Map();
+  private schemas: Map<string, TableSchema> = new Map();
+  /** Table TTLs in ms */
+  private ttls: Map<string, number> = new Map();
+  private historyRetention: Map<string, HistoryRetention> = new Map();
+  /** Previous versions of documents in tables with history, including deleted documents */
+  private history: Map<string, HistoryEntry> = new Map();
+  private changeStreams: Set<ChangeStream<any>> = new Set();
   private indexMessageId: number | null = null;
+  private indexPages: IndexPage[] = [];
+  /** Set by repair() and reencode(): the next save rewrites every page and pins the root again */
+  private indexRewriteRequested: boolean = false;
+  private pendingParts: Map<string, PendingParts> = new Map();
+  /** Latest text of each message of the chat index's pages, as written or received */
+  private indexPartTexts: Map<number, string> = new Map();
+  private listenerRegistered: boolean = false;
+  private listen: boolean;
+  private indexWriteMode: 'immediate' | 'deferred';
+  private indexFlushInterval: number;
+  private indexFlushThreshold: number;
+  private pendingChanges: number = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private batchDepth: number = 0;
+  private ttlSweepInterval: number;
+  private ttlSweepBatchSize: number;
+  private sweepTimer: ReturnType<typeof setTimeout> | null = null;
+  private sweeping: Promise<void> | null = null;
+  /** Commits run one at a time */
+  private transactionLock: Promise<void> = Promise.resolve();
+  private committedTransactions: Set<string> = new Set();
+  /** Transaction whose version of a document is stored, with its `_tx`, in the document's messages */
+  private documentTransactions: Map<string, string> = new Map();
+  /** Documents written by other clients' transactions whose commit marker hasn't arrived */
+  private pendingTransactions: Map<
+    string,
+    Array<{ doc: Document; messageIds: number[]; chatId: string | number }>
+  > = new Map();
 
   constructor(config: TelegramDBConfig) {
-    this.bot = new Telegraf(config.botToken);
-    this.chatId = config.chatId;
+    let transport: Transport;
+    if (config.transport) {
+      transport = config.transport;
+    } else if (config.botToken) {
+      transport = new TelegrafTransport(config.botToken);
+    } else {
+      throw new Error('TelegramDB requires either a botToken or a transport');
+    }
+    this.scheduler = new RequestScheduler(config.rateLimit, config.maxRetries || 3);
+    this.transport = new ScheduledTransport(transport, this.scheduler);
+    this.router = new ShardRouter(config.chatId);
+    this.chatId = this.router.primary;
     this.prefix = config.messagePrefix || 'TDB:';
     this.batchDelay = config.batchDelay || 100;
-    this.maxRetries = config.maxRetries || 3;
-    this.indexFilePath = config.indexFilePath ?? `.tg-db-index-${String(config.chatId).replace(/[^a-zA-Z0-9-]/g, '_')}.json`;
+    this.maxMessageLength = config.maxMessageLength || TELEGRAM_MAX_MESSAGE_LENGTH;
+    if (config.encryption) {
+      this.cipher = new DocumentCipher(config.encryption, `tg-db:${this.chatId}`);
+    }
+    this.codec = new PayloadCodec(config.codec, this.cipher);
+    this.indexFilePath = config.indexFilePath ?? `.tg-db-index-${String(this.chatId).replace(/[^a-zA-Z0-9-]/g, '_')}.json`;
+    this.indexBackups = config.indexBackups ?? 3;
+    this.lockIndexFile = config.lockIndexFile ?? true;
+    this.listen = config.listen ?? true;
+    this.indexWriteMode = config.indexWriteMode || 'immediate';
+    this.indexFlushInterval = config.indexFlushInterval ?? 5000;
+    this.indexFlushThreshold = config.indexFlushThreshold ?? 100;
+    this.ttlSweepInterval = config.ttlSweepInterval ?? 60000;
+    this.ttlSweepBatchSize = config.ttlSweepBatchSize ?? 100;
   }
 
   /** Initialize database connection. Must be called before use. */
@@ -56,13 +326,38 @@ export class TelegramDB {
     }
 
     try {
-      await this.bot.telegram.getMe();
-      await this.bot.telegram.getChat(this.chatId);
-      await this.loadMessageIndex();
-      this.setupMessageListener();
-      
+      await this.acquireIndexFileLock();
+      await this.transport.getMe();
+      const chat = await this.transport.getChat(this.chatId);
+      for (const shard of this.router.getChats().slice(1)) {
+        await this.transport.getChat(shard);
+      }
+      let { updatedAt: fileUpdatedAt, stale } = await this.loadMessageIndex();
+      if (stale) {
+        // A backup misses the last writes, which the chat index may have; the journal comes after either
+        const recoveredAt = await this.recoverIndexFromChat(chat.pinned_message, fileUpdatedAt, false);
+        if (recoveredAt === null && fileUpdatedAt === null) {
+          throw new Error(
+            `Index file ${this.indexFilePath} and its backups are corrupt, and the chat has no index to recover from. ` +
+            'Remove them to start with an empty index.'
+          );
+        }
+        fileUpdatedAt = recoveredAt ?? fileUpdatedAt;
+      }
+      const journalUpdatedAt = await this.replayJournal();
+      const committedAt = await this.recoverTransaction();
+      const localUpdatedAt = committedAt ?? journalUpdatedAt ?? fileUpdatedAt;
+      await this.recoverIndexFromChat(chat.pinned_message, localUpdatedAt);
+      if (this.listen) {
+        await this.setupMessageListener();
+      }
+      // Changes left in the journal by a previous run
+      await this.persistIndex();
+
       this.initialized = true;
+      this.scheduleSweep();
     } catch (error) {
+      await this.releaseIndexFileLock();
       throw new Error(`Failed to initialize Telegram DB: ${error}`);
     }
   }
@@ -72,26 +367,37 @@ export class TelegramDB {
     await this.ensureInitialized();
 
     try {
-      const document: Document = {
-        ...doc,
-        _id: doc._id || generateId(),
-        _table: table,
-      };
+      if (doc._id && await this.deleteExpired([doc._id])) {
+        await this.persistIndex();
+      }
 
-      const message = encodeDocument(document, this.prefix);
-      
-      const sentMessage = await this.retryOperation(
-        () => this.bot.telegram.sendMessage(this.chatId, message),
-        this.maxRetries
-      ) as any;
+      const document = this.prepareInsert(doc, table);
+      if (!('_id' in document)) {
+        return document;
+      }
 
-      this.messageIndex.set(document._id, (sentMessage as any).message_id);
-      this.documentCache.set(document._id, document);
-      await this.saveMessageIndex();
+      const duplicate = this.findDuplicateKey([document], table);
+      if (duplicate) {
+        return this.duplicateKeyResult(duplicate);
+      }
 
-        return {
+      const chatId = this.router.route(table, document._id);
+      const messages = encodeDocumentParts(document, this.prefix, this.maxMessageLength, this.codec);
+      const messageIds = await this.sendMessages(messages, chatId);
+
+      await this.recordChange({
+        op: 'set',
+        id: document._id,
+        messageIds,
+        ...this.chatField(chatId),
+        doc: document,
+        at: Date.now(),
+      });
+      await this.persistIndex();
+
+      return {
         success: true,
-        data: { ...document, _messageId: (sentMessage as any).message_id },
+        data: { ...document, _messageId: messageIds[0], _messageIds: messageIds },
         message: 'Document inserted successfully',
       };
     } catch (error: any) {
@@ -111,54 +417,62 @@ export class TelegramDB {
     const delay = options?.delay || this.batchDelay;
     const stopOnError = options?.stopOnError || false;
 
-    for (const doc of docs) {
-      const result = await this.insert(doc, table);
-      results.push(result);
+    // The index is persisted once for the whole batch, not after every insert
+    this.batchDepth++;
+    try {
+      for (const doc of docs) {
+        const result = await this.insert(doc, table);
+        results.push(result);
 
-      if (!result.success && stopOnError) {
-        break;
-      }
+        if (!result.success && stopOnError) {
+          break;
+        }
 
-      if (delay > 0 && docs.indexOf(doc) < docs.length - 1) {
-        await this.sleep(delay);
+        if (delay > 0 && docs.indexOf(doc) < docs.length - 1) {
+          await this.sleep(delay);
+        }
       }
+    } finally {
+      this.batchDepth--;
     }
+    await this.persistIndex();
 
     return results;
   }
 
   /** Find documents matching the filter in a table */
-  async find(filter: QueryFilter = {}, table: string): Promise<Document[]> {
+  async find(filter: QueryFilter = {}, table: string, options?: FindOptions): Promise<Document[]> {
     await this.ensureInitialized();
 
     try {
+      if (options?.asOf !== undefined) {
+        return applyFindOptions(this.findAsOf(filter, table, options.asOf), options);
+      }
+
       const documents: Document[] = [];
       const queryWithTable = { ...filter, _table: table };
 
-      for (const [docId, doc] of this.documentCache.entries()) {
-        if (matchesFilter(doc, queryWithTable)) {
-          documents.push(doc);
-        }
-      }
-
       if (this.documentCache.size === 0) {
         await this.reloadCacheFromIndex();
-        for (const [docId, doc] of this.documentCache.entries()) {
-          if (matchesFilter(doc, queryWithTable)) {
-            documents.push(doc);
-          }
+      }
+
+      const now = Date.now();
+      for (const docId of this.planQuery(filter, table)) {
+        const doc = this.documentCache.get(docId);
+        if (doc && !isExpired(doc, now) && matchesFilter(doc, queryWithTable)) {
+          documents.push(doc);
         }
       }
 
-      return documents;
+      return options ? applyFindOptions(documents, options) : documents;
     } catch (error: any) {
       throw new Error(`Failed to find documents: ${error.message}`);
     }
   }
 
   /** Find a single document matching the filter in a table */
-  async findOne(filter: QueryFilter = {}, table: string): Promise<Document | null> {
-    const results = await this.find(filter, table);
+  async findOne(filter: QueryFilter = {}, table: string, options?: FindOptions): Promise<Document | null> {
+    const results = await this.find(filter, table, { ...options, limit: 1 });
     return results.length > 0 ? results[0] : null;
   }
 
@@ -167,23 +481,94 @@ export class TelegramDB {
     return this.findOne({ _id: id }, table);
   }
 
-  /** Update documents matching the filter in a table */
+  /**
+   * Every kept version of a document in a table with history, oldest first.
+   * The last is the current version unless the document was deleted.
+   */
+  async findHistory<T = Document>(id: string, table: string): Promise<DocumentVersion<T>[]> {
+    await this.ensureInitialized();
+    this.assertHistory(table);
+
+    const entry = this.history.get(id);
+    const versions: DocumentVersion[] = (entry?.versions ?? [])
+      .filter(version => version.doc._table === table)
+      .map(version => ({
+        doc: version.doc,
+        validFrom: version.from,
+        validTo: version.to,
+        deleted: version.deleted === true,
+      }));
+
+    const current = this.documentCache.get(id);
+    if (current && current._table === table && !isExpired(current)) {
+      versions.push({ doc: current, validFrom: entry?.since ?? null, validTo: null, deleted: false });
+    }
+    return versions as DocumentVersion<T>[];
+  }
+
+  /**
+   * Write a previous version of a document back as its current version, by
+   * `_rev`. Recreates the document if it was deleted. The restored version
+   * gets a new `_rev`, and the version it replaces is kept in the history.
+   */
+  async restoreVersion(id: string, rev: number, table: string): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    try {
+      this.assertHistory(table);
+      const version = (this.history.get(id)?.versions ?? [])
+        .filter(archived => archived.doc._table === table && archived.doc._rev === rev)
+        .pop();
+      if (!version) {
+        return {
+          success: false,
+          message: `Version ${rev} of document ${id} not found`,
+        };
+      }
+
+      // The current expiry, or the table TTL for a recreated document, applies
+      const { _id, _table, _rev, expireAt, ...fields } = version.doc;
+      const current = await this.findById(id, table);
+      const result = current
+        ? await this.update({ _id: id }, fields, table, { replace: true })
+        : await this.insert({ ...fields, _id: id }, table);
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: current ? result.data[0] : result.data,
+        message: `Restored version ${rev} of document ${id}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to restore version: ${error.message}`,
+      };
+    }
+  }
+
+  /** Update documents matching the filter in a table, by deep merge, replace or update operators */
   async update(
     filter: QueryFilter,
-    update: Partial<Document>,
+    update: UpdateSpec,
     table: string,
     options: UpdateOptions = {}
   ): Promise<OperationResult> {
     await this.ensureInitialized();
 
     try {
-      const queryWithTable = { ...filter, _table: table };
-      const documents = await this.find({}, table).then(docs => 
-        docs.filter(doc => matchesFilter(doc, queryWithTable))
-      );
-      
+      const useOperators = isOperatorUpdate(update);
+      if (useOperators && options.replace) {
+        throw new Error('Update operators cannot be combined with replace');
+      }
+
+      const documents = await this.find(filter, table);
+
       if (documents.length === 0 && options.upsert) {
-        const newDoc = deepMerge(filter, update);
+        const newDoc = createUpsertDocument(filter, update);
         return await this.insert(newDoc, table);
       }
 
@@ -194,33 +579,41 @@ export class TelegramDB {
         };
       }
 
-      const updatedDocs: Document[] = [];
-      for (const doc of documents) {
-        const updated = options.replace
-          ? { ...update, _id: doc._id }
-          : deepMerge(doc, { ...update, _id: doc._id });
-
-        const oldMessageId = this.messageIndex.get(doc._id);
-        if (oldMessageId) {
-          try {
-            await this.bot.telegram.deleteMessage(this.chatId, oldMessageId);
-          } catch {
-            // Ignore deletion errors
-          }
+      if (options.ifRev !== undefined) {
+        const conflict = this.checkRevisions(documents, options.ifRev);
+        if (conflict) {
+          return this.conflictResult(conflict);
         }
+      }
+
+      // Computed up front so an invalid operator fails before anything is written
+      const changes = this.prepareUpdate(documents, update, table, options);
+      if (!Array.isArray(changes)) {
+        return changes;
+      }
 
-        const message = encodeDocument(updated, this.prefix);
-        const sentMessage = await this.retryOperation(
-          () => this.bot.telegram.sendMessage(this.chatId, message),
-          this.maxRetries
-        ) as any;
+      const duplicate = this.findDuplicateKey(changes, table, new Set(documents.map(doc => doc._id)));
+      if (duplicate) {
+        return this.duplicateKeyResult(duplicate);
+      }
 
-        this.messageIndex.set(updated._id, (sentMessage as any).message_id);
-        this.documentCache.set(updated._id, updated);
+      const updatedDocs: Document[] = [];
+      for (const updated of changes) {
+        const chatId = this.getDocumentChat(updated._id);
+        const messageIds = await this.rewriteDocument(updated);
+
+        await this.recordChange({
+          op: 'set',
+          id: updated._id,
+          messageIds,
+          ...this.chatField(chatId),
+          doc: updated,
+          at: Date.now(),
+        });
         updatedDocs.push(updated);
       }
 
-      await this.saveMessageIndex();
+      await this.persistIndex();
 
       return {
         success: true,
@@ -239,7 +632,7 @@ export class TelegramDB {
   /** Update a single document by ID in a table */
   async updateById(
     id: string,
-    update: Partial<Document>,
+    update: UpdateSpec,
     table: string,
     options: UpdateOptions = {}
   ): Promise<OperationResult> {
@@ -251,11 +644,8 @@ export class TelegramDB {
     await this.ensureInitialized();
 
     try {
-      const queryWithTable = { ...filter, _table: table };
-      const documents = await this.find({}, table).then(docs => 
-        docs.filter(doc => matchesFilter(doc, queryWithTable))
-      );
-      
+      const documents = await this.find(filter, table);
+
       if (documents.length === 0) {
         return {
           success: false,
@@ -266,21 +656,22 @@ export class TelegramDB {
       let deletedCount = 0;
 
       for (const doc of documents) {
-        const messageId = this.messageIndex.get(doc._id);
-        if (messageId) {
+        const messageIds = this.messageIndex.get(doc._id);
+        if (messageIds && messageIds.length > 0) {
+          const chatId = this.getDocumentChat(doc._id);
           try {
-            await this.bot.telegram.deleteMessage(this.chatId, messageId);
-            this.messageIndex.delete(doc._id);
-            this.documentCache.delete(doc._id);
+            for (const messageId of messageIds) {
+              await this.transport.deleteMessage(chatId, messageId);
+            }
+            await this.recordChange({ op: 'delete', id: doc._id, at: Date.now() });
             deletedCount++;
           } catch {
-            this.messageIndex.delete(doc._id);
-            this.documentCache.delete(doc._id);
+            await this.recordChange({ op: 'delete', id: doc._id, at: Date.now() });
           }
         }
       }
-      
-      await this.saveMessageIndex();
+
+      await this.persistIndex();
 
       return {
         success: true,
@@ -308,23 +699,103 @@ export class TelegramDB {
 
   /** Count documents matching the filter in a table */
   async count(filter: QueryFilter = {}, table: string): Promise<number> {
-    const queryWithTable = { ...filter, _table: table };
-    const documents = await this.find({}, table);
-    return documents.filter(doc => matchesFilter(doc, queryWithTable)).length;
+    const documents = await this.find(filter, table);
+    return documents.length;
+  }
+
+  /** Run an aggregation pipeline over a table's documents */
+  async aggregate(pipeline: PipelineStage[], table: string): Promise<any[]> {
+    await this.ensureInitialized();
+
+    try {
+      const documents = await this.find({}, table);
+      return runPipeline(documents, pipeline, from => this.getTableDocuments(from));
+    } catch (error: any) {
+      throw new Error(`Failed to aggregate documents: ${error.message}`);
+    }
   }
 
   /** Get all table names in the database */
   async getTables(): Promise<string[]> {
     await this.ensureInitialized();
     
-    const tables = new Set<string>();
-    for (const [, doc] of this.documentCache.entries()) {
-      if (doc._table) {
-        tables.add(doc._table);
+    return Array.from(this.tableIndex.keys()).filter(table => !!table && table !== '__SYSTEM__');
+  }
+
+  /**
+   * Create a secondary index on a field of a table. Equality and `$in` queries
+   * on the field are answered from the index. With `unique`, inserts and
+   * updates that would store a value twice fail with code 'DUPLICATE_KEY';
+   * creating it fails the same way if existing documents already collide.
+   */
+  async createIndex(field: string, table: string, options: IndexOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    try {
+      if (!field || field.startsWith('$')) {
+        throw new Error(`Invalid index field: ${field}`);
+      }
+
+      const definition: IndexDefinition = { table, field, unique: !!options.unique };
+      const existing = this.indexDefinitions.find(def => def.table === table && def.field === field);
+      if (existing) {
+        if (existing.unique !== definition.unique) {
+          throw new Error(`An index on ${table}.${field} already exists with different options`);
+        }
+        return { success: true, data: { ...existing }, message: 'Index already exists' };
+      }
+
+      if (definition.unique) {
+        const duplicate = this.findDuplicateKey(this.getTableDocuments(table), table, new Set(), [
+          new SecondaryIndex(field, true),
+        ]);
+        if (duplicate) {
+          return this.duplicateKeyResult(duplicate);
+        }
       }
+
+      await this.recordChange({
+        op: 'indexes',
+        definitions: [...this.indexDefinitions, definition],
+        at: Date.now(),
+      });
+      await this.persistIndex();
+
+      return { success: true, data: { ...definition }, message: `Created index on ${table}.${field}` };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to create index: ${error.message}`,
+      };
     }
-    
-    return Array.from(tables);
+  }
+
+  /** Remove a secondary index from a table */
+  async dropIndex(field: string, table: string): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    const definitions = this.indexDefinitions.filter(def => !(def.table === table && def.field === field));
+    if (definitions.length === this.indexDefinitions.length) {
+      return {
+        success: false,
+        message: `No index found on ${table}.${field}`,
+      };
+    }
+
+    await this.recordChange({ op: 'indexes', definitions, at: Date.now() });
+    await this.persistIndex();
+
+    return { success: true, message: `Dropped index on ${table}.${field}` };
+  }
+
+  /** Secondary indexes of a table, or of all tables */
+  async getIndexes(table?: string): Promise<IndexDefinition[]> {
+    await this.ensureInitialized();
+
+    return this.indexDefinitions
+      .filter(def => table === undefined || def.table === table)
+      .map(def => ({ ...def }));
   }
 
   /** Tabloyu tamamen siler */
@@ -338,7 +809,7 @@ export class TelegramDB {
 
     const documents = table 
       ? await this.find({}, table)
-      : Array.from(this.documentCache.values());
+      : Array.from(this.documentCache.values()).filter(doc => doc._table !== '__SYSTEM__' && !isExpired(doc));
     const messages = await this.getAllMessages();
 
     let oldestDoc: Document | undefined;
@@ -358,12 +829,32 @@ export class TelegramDB {
       });
     }
 
-    return {
+    const stats: DatabaseStats = {
       totalDocuments: documents.length,
       totalMessages: messages.length,
       oldestDocument: oldestDoc,
       newestDocument: newestDoc,
     };
+
+    if (this.router.sharded) {
+      const shards = new Map<string, ShardStats>(
+        this.router.getChats().map(chatId => [String(chatId), { chatId, documents: 0, messages: 0 }])
+      );
+      for (const doc of documents) {
+        const chatId = this.getDocumentChat(doc._id);
+        let shard = shards.get(String(chatId));
+        if (!shard) {
+          // A chat dropped from the config that still holds documents
+          shard = { chatId, documents: 0, messages: 0 };
+          shards.set(String(chatId), shard);
+        }
+        shard.documents++;
+        shard.messages += this.messageIndex.get(doc._id)?.length ?? 0;
+      }
+      stats.shards = Array.from(shards.values());
+    }
+
+    return stats;
   }
 
   /** Clear all data from the database (all tables) */
@@ -385,142 +876,2598 @@ export class TelegramDB {
     };
   }
 
-  /** Get a collection/table handler for fluent API usage */
-  table(tableName: string): TableHandler {
-    return new TableHandler(this, tableName);
-  }
+  /**
+   * Rebuild the local index and document cache from the index message pinned in the chat.
+   * Use when the local index file was lost or is out of date.
+   */
+  async rebuildIndex(options: RebuildIndexOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
 
-  private async getAllMessages(): Promise<Array<{ message_id: number; text?: string }>> {
-    const messages: Array<{ message_id: number; text?: string }> = [];
-    
-    for (const [docId, messageId] of this.messageIndex.entries()) {
-      messages.push({
-        message_id: messageId,
-        text: '', // Text is stored in cache, not needed here
-      });
+    try {
+      const chat = await this.transport.getChat(this.chatId);
+      const indexData = await this.readIndexMessage(chat.pinned_message);
+
+      if (!indexData || !chat.pinned_message) {
+        return {
+          success: false,
+          data: this.createRebuildReport(),
+          message: 'No index message found in chat',
+        };
+      }
+
+      if (options.dryRun) {
+        const report = this.describeIndexData(indexData, chat.pinned_message.message_id);
+        return {
+          success: true,
+          data: report,
+          message: `Dry run: would rebuild index with ${report.documentCount} document(s) in ${report.tables.length} table(s)`,
+        };
+      }
+
+      this.applyIndexData(indexData, chat.pinned_message.message_id);
+      await this.writeIndexFile(indexData.updatedAt);
+      await this.clearJournal();
+
+      const report = this.createRebuildReport(indexData.updatedAt);
+      return {
+        success: true,
+        data: report,
+        message: `Rebuilt index with ${report.documentCount} document(s) in ${report.tables.length} table(s)`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to rebuild index: ${error.message}`,
+      };
     }
-    
-    return messages;
   }
 
-  private async reloadCacheFromIndex(): Promise<void> {
+  /**
+   * Delete every expired document now, `ttlSweepBatchSize` at a time. The
+   * background sweeper does the same one batch per `ttlSweepInterval`.
+   * Expired documents are already hidden from reads before they are deleted.
+   */
+  async sweepExpired(): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    let deletedCount = 0;
     try {
-      if (this.indexMessageId) {
-        // Cache populated as operations happen
-      }
-    } catch {
-      // Ignore errors
+      let deleted: number;
+      do {
+        deleted = await this.sweepBatch();
+        deletedCount += deleted;
+      } while (deleted === this.ttlSweepBatchSize);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        data: { deletedCount },
+        message: `Failed to delete expired documents: ${error.message}`,
+      };
     }
+
+    return {
+      success: true,
+      data: { deletedCount },
+      message: `Deleted ${deletedCount} expired document(s)`,
+    };
   }
 
-  private async loadMessageIndex(): Promise<void> {
-    this.messageIndex.clear();
-    this.documentCache.clear();
+  /**
+   * Read every document back from its messages in the chat and compare it
+   * with the cache, and check the index message is pinned. Reads every
+   * message, so it is slow on large databases; `scan` reads the gaps too.
+   * With TelegrafTransport each read is two calls, a forward and a delete.
+   */
+  async verify(options: VerifyOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
 
     try {
-      if (existsSync(this.indexFilePath)) {
-        const data = await readFile(this.indexFilePath, 'utf-8');
-        const index: IndexFile = JSON.parse(data);
-        if (index.messageIndex && Array.isArray(index.messageIndex)) {
-          this.messageIndex = new Map(index.messageIndex);
-        }
-        if (index.documents && Array.isArray(index.documents)) {
-          index.documents.forEach((doc: Document) => {
-            if (doc && doc._id) {
-              this.documentCache.set(doc._id, doc);
-            }
-          });
-        }
-        if (index.indexMessageId != null) {
-          this.indexMessageId = index.indexMessageId;
-        }
-      }
-    } catch {
-      // Corrupt or missing file - start fresh
+      const report = await this.inspect(options);
+      const problems = this.countProblems(report);
+      return {
+        success: problems === 0,
+        data: report,
+        message: problems === 0
+          ? `Verified ${report.checkedCount} document(s)`
+          : `Found ${problems} problem(s) in ${report.checkedCount} document(s)`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to verify documents: ${error.message}`,
+      };
     }
   }
 
-  private async saveMessageIndex(): Promise<void> {
+  /**
+   * Run `verify()` and fix what it finds according to `options`, then write
+   * and pin the index again. Without `scan`, only indexed documents are fixed.
+   * Reads every message like `verify()`, at the same cost.
+   */
+  async repair(options: RepairOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    let found: VerifyReport;
     try {
-      const indexData = {
-        _id: '__INDEX__',
-        _table: '__SYSTEM__',
-        messageIndex: Array.from(this.messageIndex.entries()),
-        documents: Array.from(this.documentCache.values()),
-        updatedAt: Date.now(),
+      found = await this.inspect(options);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to verify documents: ${error.message}`,
       };
+    }
 
-      const indexFile: IndexFile = {
-        messageIndex: indexData.messageIndex,
-        documents: indexData.documents,
-        indexMessageId: this.indexMessageId,
-        updatedAt: indexData.updatedAt,
-      };
+    const report: RepairReport = {
+      found,
+      resent: [],
+      dropped: [],
+      rewritten: [],
+      reloaded: [],
+      adopted: [],
+      deletedMessageCount: 0,
+    };
+    const deleteStray = async (stray: StrayMessages) => {
+      await this.deleteMessages(stray.messageIds, stray.chatId);
+      report.deletedMessageCount += stray.messageIds.length;
+    };
 
-      try {
-        const dir = dirname(this.indexFilePath);
-        if (dir !== '.' && !existsSync(dir)) {
-          await mkdir(dir, { recursive: true });
+    this.batchDepth++;
+    try {
+      for (const id of [...found.missing, ...found.unindexed]) {
+        const doc = this.documentCache.get(id);
+        if (!doc) continue;
+        const chatId = this.getDocumentChat(id);
+        const leftover = this.messageIndex.get(id) ?? [];
+
+        if (options.missing === 'drop') {
+          await this.recordChange({ op: 'delete', id, at: Date.now() });
+          report.dropped.push(id);
+        } else {
+          const messageIds = await this.sendMessages(
+            encodeDocumentParts(doc, this.prefix, this.maxMessageLength, this.codec),
+            chatId
+          );
+          await this.recordChange({ op: 'set', id, messageIds, ...this.chatField(chatId), doc, at: Date.now() });
+          report.resent.push(id);
         }
-        await writeFile(this.indexFilePath, JSON.stringify(indexFile, null, 0), 'utf-8');
-      } catch (err) {
-        console.warn('Failed to save index file:', err);
+        // Parts that are still there
+        await this.deleteMessages(leftover, chatId);
       }
 
-      const indexMessage = encodeDocument(indexData as Document, `${this.prefix}INDEX:`);
-
-      if (this.indexMessageId) {
-        try {
-          await this.bot.telegram.deleteMessage(this.chatId, this.indexMessageId);
-        } catch {
-          // Ignore errors
+      for (const id of found.mismatched) {
+        const cached = this.documentCache.get(id);
+        if (!cached) continue;
+        const chatId = this.getDocumentChat(id);
+
+        if (options.mismatched === 'chat') {
+          const stored = await this.readStoredDocument(id);
+          if (!stored) continue;
+          const messageIds = this.messageIndex.get(id) ?? [];
+          await this.recordChange({ op: 'set', id, messageIds, ...this.chatField(chatId), doc: stored, at: Date.now() });
+          report.reloaded.push(id);
+        } else {
+          const messageIds = await this.rewriteDocument(cached);
+          await this.recordChange({ op: 'set', id, messageIds, ...this.chatField(chatId), doc: cached, at: Date.now() });
+          report.rewritten.push(id);
         }
       }
 
-      if (this.messageIndex.size > 0) {
-        try {
-          const sentMessage = await this.bot.telegram.sendMessage(this.chatId, indexMessage) as any;
-          this.indexMessageId = (sentMessage as any).message_id;
-        } catch {
-          this.indexMessageId = null;
+      for (const orphan of found.orphaned) {
+        if (options.orphaned === 'keep') continue;
+        if (options.orphaned === 'delete') {
+          await deleteStray(orphan);
+          continue;
         }
-      } else {
-        this.indexMessageId = null;
-      }
-      indexFile.indexMessageId = this.indexMessageId;
-      await writeFile(this.indexFilePath, JSON.stringify(indexFile, null, 0), 'utf-8');
-    } catch (error) {
-      console.warn('Failed to save message index:', error);
-    }
-  }
-
-  private setupMessageListener(): void {
-    this.bot.on('message', async (ctx: Context) => {
-      const message = ctx.message;
-      if (!message || !('text' in message) || !message.text) return;
 
-      const text = message.text;
-      if (String(ctx.chat?.id) !== String(this.chatId)) return;
+        // Versions of an uncommitted transaction or expired documents stay where they are
+        const doc = await this.readMessages(orphan.messageIds, orphan.chatId);
+        if (
+          !doc || doc._id !== orphan.documentId || doc._tx !== undefined ||
+          isExpired(doc) || this.messageIndex.has(doc._id)
+        ) {
+          continue;
+        }
+        await this.recordChange({
+          op: 'set',
+          id: doc._id,
+          messageIds: orphan.messageIds,
+          ...this.chatField(orphan.chatId),
+          doc,
+          at: Date.now(),
+        });
+        report.adopted.push(doc._id);
+      }
 
-      if (text.startsWith(this.prefix) && !text.startsWith(`${this.prefix}INDEX:`)) {
-        const doc = decodeDocument(text, this.prefix);
-        if (doc && doc._id) {
-          this.messageIndex.set(doc._id, message.message_id);
-          this.documentCache.set(doc._id, doc);
+      if (options.stray !== 'keep') {
+        for (const stray of [...found.duplicates, ...found.staleIndexMessages]) {
+          await deleteStray(stray);
         }
-      } else if (text.startsWith(`${this.prefix}INDEX:`)) {
-        const indexData = decodeDocument(text, `${this.prefix}INDEX:`);
-        if (indexData && indexData._id === '__INDEX__' && indexData.messageIndex && indexData.documents) {
-          this.messageIndex = new Map(indexData.messageIndex);
-          indexData.documents.forEach((doc: Document) => {
-            this.documentCache.set(doc._id, doc);
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        data: report,
+        message: `Failed to repair database: ${error.message}`,
+      };
+    } finally {
+      this.batchDepth--;
+    }
+
+    // Every page written again and the root pinned again
+    this.indexRewriteRequested = true;
+    this.pendingChanges++;
+    await this.flush();
+
+    const fixed = report.resent.length + report.dropped.length + report.rewritten.length +
+      report.reloaded.length + report.adopted.length;
+    return {
+      success: true,
+      data: report,
+      message: `Fixed ${fixed} document(s) and deleted ${report.deletedMessageCount} message(s)`,
+    };
+  }
+
+  /**
+   * Write pending index changes to the local index file and the chat now.
+   * Called automatically according to `indexWriteMode` and by `close()`.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.pendingChanges === 0) {
+      return;
+    }
+
+    this.flushing = this.flushIndex().finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  /**
+   * Rewrite every document and the index in the current format: `codec` and
+   * `encryption` settings. Messages are edited in place, so their ids stay
+   * the same. Run it after changing the codec, rotating the key (keep the old
+   * one in `previousKeys` until this completes), enabling encryption on
+   * existing data, or changing the encrypted fields.
+   */
+  async reencode(): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    let rewritten = 0;
+    this.batchDepth++;
+    try {
+      for (const doc of Array.from(this.documentCache.values())) {
+        const chatId = this.getDocumentChat(doc._id);
+        const messageIds = await this.rewriteDocument(doc);
+        await this.recordChange({ op: 'set', id: doc._id, messageIds, ...this.chatField(chatId), doc, at: Date.now() });
+        rewritten++;
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        data: { rewrittenCount: rewritten },
+        message: `Failed to re-encode documents: ${error.message}`,
+      };
+    } finally {
+      this.batchDepth--;
+      // The index must be rewritten too, even in deferred mode
+      this.indexRewriteRequested = true;
+      await this.flush();
+    }
+
+    return {
+      success: true,
+      data: { rewrittenCount: rewritten },
+      message: `Re-encoded ${rewritten} document(s)`,
+    };
+  }
+
+  /** Same as reencode(); rewrites everything with the current encryption settings */
+  async reencrypt(): Promise<OperationResult> {
+    return this.reencode();
+  }
+
+  /**
+   * Move every document that isn't stored in the chat the current `chatId`
+   * config routes it to, e.g. after adding or removing a shard. Each document
+   * is sent to its new chat before it is deleted from the old one. Documents
+   * stay readable while this runs, and running it again resumes after a failure.
+   */
+  async rebalance(options: RebalanceOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    if (options.dryRun) {
+      const movable = Array.from(this.documentCache.values()).filter(doc =>
+        !isExpired(doc) && !sameChat(this.getDocumentChat(doc._id), this.router.route(doc._table, doc._id))
+      );
+      return {
+        success: true,
+        data: { dryRun: true, movedCount: movable.length },
+        message: `Dry run: would move ${movable.length} document(s)`,
+      };
+    }
+
+    let moved = 0;
+    this.batchDepth++;
+    try {
+      for (const doc of Array.from(this.documentCache.values())) {
+        const from = this.getDocumentChat(doc._id);
+        const to = this.router.route(doc._table, doc._id);
+        if (sameChat(from, to) || isExpired(doc)) continue;
+
+        const oldMessageIds = this.messageIndex.get(doc._id) ?? [];
+        const messages = encodeDocumentParts(doc, this.prefix, this.maxMessageLength, this.codec);
+        const messageIds = await this.sendMessages(messages, to);
+        await this.recordChange({ op: 'set', id: doc._id, messageIds, ...this.chatField(to), doc, at: Date.now() });
+        await this.deleteMessages(oldMessageIds, from);
+        moved++;
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        data: { dryRun: false, movedCount: moved },
+        message: `Failed to rebalance documents: ${error.message}`,
+      };
+    } finally {
+      this.batchDepth--;
+      await this.persistIndex();
+    }
+
+    return {
+      success: true,
+      data: { dryRun: false, movedCount: moved },
+      message: `Moved ${moved} document(s)`,
+    };
+  }
+
+  /**
+   * Write the documents of some or all tables to a file or stream, e.g. as a
+   * backup. A stream passed in is left open.
+   */
+  async export(destination: string | Writable, options: ExportOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    try {
+      const format = options.format
+        ?? (typeof destination === 'string' ? inferDumpFormat(destination) : undefined)
+        ?? 'jsonl';
+      const tables = options.tables ?? await this.getTables();
+      const documents: Document[] = [];
+      for (const table of tables) {
+        documents.push(...await this.find({}, table));
+      }
+
+      await writeDump(documents, format, destination);
+
+      return {
+        success: true,
+        data: { exportedCount: documents.length, tables },
+        message: `Exported ${documents.length} document(s) from ${tables.length} table(s)`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to export documents: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Insert the documents of a file or stream written by `export()`. Every
+   * document goes through insert(), so schemas and unique indexes apply and
+   * revisions start again at 1. Records that fail are listed in the report;
+   * the rest are imported unless `stopOnError` is set.
+   */
+  async import(source: string | Readable, options: ImportOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    const format = options.format
+      ?? (typeof source === 'string' ? inferDumpFormat(source) : undefined)
+      ?? 'jsonl';
+    return this.importDocuments(readDump(source, format), options);
+  }
+
+  /**
+   * Copy tables and their secondary indexes into another database, e.g. on a
+   * new chat or bot. Documents keep their ids. Writes go through the target's
+   * rate limits, with `delay` ms between documents on top.
+   */
+  async migrateTo(target: TelegramDB, options: MigrateOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+    await target.ensureInitialized();
+
+    try {
+      if (target === this) {
+        throw new Error('Cannot migrate a database into itself');
+      }
+
+      const tables = options.tables ?? await this.getTables();
+      // Indexes first, so unique constraints hold while copying
+      for (const definition of this.indexDefinitions.filter(def => tables.includes(def.table))) {
+        const result = await target.createIndex(definition.field, definition.table, { unique: definition.unique });
+        if (!result.success) {
+          return result;
+        }
+      }
+
+      const documents = tables.flatMap(table => this.getTableDocuments(table));
+      return await target.importDocuments(documents, { ...options, ids: 'preserve' }, documents.length);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to migrate documents: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Run `fn` as a transaction. Its inserts, updates and deletes are staged and
+   * written together once it returns; other clients and crash recovery ignore
+   * the written documents until a commit marker message follows them. If `fn`
+   * throws, nothing is written. If writing fails, the messages already written
+   * get their previous contents back and the cache is left unchanged. Fails
+   * with code 'CONFLICT' if another write changed a document it touched.
+   * On success, `data` is the value `fn` returned.
+   */
+  async transaction<R>(fn: (tx: Transaction) => Promise<R>): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    const tx = new Transaction(generateId(), {
+      getDocument: id => {
+        const doc = this.documentCache.get(id);
+        return doc && !isExpired(doc) ? doc : undefined;
+      },
+      getTableDocuments: table => this.getTableDocuments(table),
+      prepareInsert: (doc, table, exists) => this.prepareInsert(doc, table, exists),
+      prepareUpdate: (documents, update, table, options) => this.prepareUpdate(documents, update, table, options),
+      conflictResult: conflict => this.conflictResult(conflict),
+    });
+
+    let value: R;
+    try {
+      value = await fn(tx);
+    } catch (error: any) {
+      const result = error instanceof TransactionError ? error.result : {};
+      return {
+        ...result,
+        success: false,
+        error: error,
+        message: `Transaction failed: ${error.message}`,
+      };
+    } finally {
+      tx.close();
+    }
+
+    return this.queueCommit(tx.id, tx.getWrites(), value);
+  }
+
+  /**
+   * Run the migrations that take each table from its recorded version to the
+   * highest version given, or to `options.to`; a lower `to` rolls back with
+   * `down`. A table's documents are rewritten in one transaction together
+   * with the recorded versions, so a failed migration changes nothing. While
+   * it runs, a lock in the migration record stops other processes migrating.
+   */
+  async migrate(migrations: Migration[], options: MigrationOptions = {}): Promise<OperationResult> {
+    await this.ensureInitialized();
+
+    let owner: string | null = null;
+    try {
+      assertValidMigrations(migrations);
+      // Up to date by the cached versions: no need to take the lock
+      if (!options.dryRun && planMigrations(migrations, this.getMigrationVersionsSync(), options).length === 0) {
+        return { success: true, data: { dryRun: false, tables: [] }, message: 'No migrations to run' };
+      }
+
+      if (!options.dryRun) {
+        const locked = await this.lockMigrations(options.lockTimeout ?? 3600000);
+        if (typeof locked !== 'string') {
+          return locked;
+        }
+        owner = locked;
+      }
+
+      const plans = planMigrations(migrations, this.getMigrationVersionsSync(), options);
+      const report: MigrationReport = { dryRun: !!options.dryRun, tables: [] };
+      const writes: TransactionWrite[] = [];
+      for (const plan of plans) {
+        let updatedCount = 0;
+        let deletedCount = 0;
+        for (const doc of this.getTableDocuments(plan.table)) {
+          const migrated = await migrateDocument(doc, plan);
+          if (!migrated) {
+            writes.push({ id: doc._id, table: plan.table, original: doc, doc: null });
+            deletedCount++;
+          } else if (!isEqual({ ...migrated, _rev: doc._rev ?? 0 }, { ...doc, _rev: doc._rev ?? 0 })) {
+            writes.push({ id: doc._id, table: plan.table, original: doc, doc: { ...migrated, _rev: (doc._rev ?? 0) + 1 } });
+            updatedCount++;
+          }
+        }
+        report.tables.push({
+          table: plan.table,
+          fromVersion: plan.fromVersion,
+          toVersion: plan.toVersion,
+          direction: plan.direction,
+          versions: plan.steps.map(step => step.version),
+          updatedCount,
+          deletedCount,
+        });
+      }
+
+      const summary = report.tables
+        .map(table => `${table.table} ${table.fromVersion} -> ${table.toVersion}`)
+        .join(', ') || 'nothing to run';
+      if (options.dryRun) {
+        return { success: true, data: report, message: `Dry run: ${summary}` };
+      }
+      if (plans.length === 0) {
+        return { success: true, data: report, message: 'No migrations to run' };
+      }
+
+      // Recorded in the same transaction, which also releases the lock
+      const record = this.documentCache.get(MIGRATIONS_ID) as MigrationRecord;
+      const { lock, ...unlocked } = record;
+      const versions = { ...record.versions };
+      for (const plan of plans) {
+        versions[plan.table] = plan.toVersion;
+      }
+      writes.push({
+        id: MIGRATIONS_ID,
+        table: '__SYSTEM__',
+        original: record,
+        doc: { ...unlocked, versions, _rev: (record._rev ?? 0) + 1 },
+      });
+
+      const result = await this.queueCommit(generateId(), writes, report);
+      if (!result.success) {
+        return result;
+      }
+      owner = null;
+      return { ...result, message: `Migrated ${summary}` };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to run migrations: ${error.message}`,
+      };
+    } finally {
+      if (owner) {
+        await this.unlockMigrations(owner).catch(err => console.warn('Failed to release migration lock:', err));
+      }
+    }
+  }
+
+  /** Applied migration version of every table that has run migrations */
+  async getMigrationVersions(): Promise<{ [table: string]: number }> {
+    await this.ensureInitialized();
+    return this.getMigrationVersionsSync();
+  }
+
+  /**
+   * Watch inserts, updates and deletes of documents matching the filter,
+   * in every table. Changes made by other clients of the chat are reported
+   * with `source: 'remote'` once the database is initialized. Throws if the
+   * filter uses an unknown operator.
+   */
+  watch<T = Document>(filter: QueryFilter = {}, table?: string): ChangeStream<T> {
+    matchesFilter({} as Document, filter);
+    const stream = new ChangeStream<T>(filter, table, closed => this.changeStreams.delete(closed));
+    this.changeStreams.add(stream);
+    return stream;
+  }
+
+  /** Queue depth, wait times and retry counts of outbound Telegram requests */
+  getQueueMetrics(): SchedulerMetrics {
+    return this.scheduler.getMetrics();
+  }
+
+  /**
+   * Get a collection/table handler for fluent API usage. A `schema` is
+   * registered for the table and validates every later insert and update,
+   * through the handler or directly on the database.
+   */
+  table<T extends object = Document>(tableName: string, options?: TableOptions): TableHandler<T> {
+    if (options?.schema) {
+      assertValidSchema(options.schema);
+      this.schemas.set(tableName, options.schema);
+    }
+    if (options?.ttl !== undefined) {
+      this.ttls.set(tableName, parseDuration(options.ttl));
+    }
+    if (options?.history) {
+      const { maxVersions, maxAge } = options.history === true ? {} : options.history;
+      if (maxVersions !== undefined && (!Number.isInteger(maxVersions) || maxVersions < 0)) {
+        throw new Error(`Invalid maxVersions: ${maxVersions}`);
+      }
+      this.historyRetention.set(tableName, {
+        maxVersions,
+        maxAge: maxAge !== undefined ? parseDuration(maxAge) : undefined,
+      });
+    }
+    return new TableHandler<T>(this, tableName);
+  }
+
+  private async getAllMessages(): Promise<Array<{ message_id: number; text?: string }>> {
+    const messages: Array<{ message_id: number; text?: string }> = [];
+    
+    for (const [docId, messageIds] of this.messageIndex.entries()) {
+      for (const messageId of messageIds) {
+        messages.push({
+          message_id: messageId,
+          text: '', // Text is stored in cache, not needed here
+        });
+      }
+    }
+    
+    return messages;
+  }
+
+  private async reloadCacheFromIndex(): Promise<void> {
+    try {
+      if (this.indexMessageId) {
+        const chat = await this.transport.getChat(this.chatId);
+        await this.recoverIndexFromChat(chat.pinned_message, null);
+      }
+    } catch {
+      // Ignore errors
+    }
+  }
+
+  /**
+   * Load the local index file, or its newest intact backup if it is corrupt.
+   * Returns the updatedAt of what was loaded, null if nothing, and whether
+   * the index file itself was unreadable.
+   */
+  private async loadMessageIndex(): Promise<{ updatedAt: number | null; stale: boolean }> {
+    this.messageIndex.clear();
+    this.documentChats.clear();
+    this.documentCache.clear();
+    this.history.clear();
+    this.documentTransactions.clear();
+    this.indexDefinitions = [];
+
+    try {
+      const file = await readIndexFile<IndexFile>(this.indexFilePath, this.indexBackups);
+      if (file) {
+        const index = file.data;
+        if (index.messageIndex && Array.isArray(index.messageIndex)) {
+          this.setMessageIndex(index.messageIndex);
+        }
+        if (index.documents && Array.isArray(index.documents)) {
+          index.documents.forEach((doc: Document) => {
+            if (doc && doc._id) {
+              this.documentCache.set(doc._id, doc);
+            }
+          });
+        }
+        if (Array.isArray(index.indexes)) {
+          this.indexDefinitions = index.indexes;
+        }
+        if (Array.isArray(index.transactions)) {
+          this.documentTransactions = new Map(index.transactions);
+        }
+        if (Array.isArray(index.history)) {
+          this.history = new Map(index.history);
+        }
+        if (index.indexMessageId != null) {
+          this.indexMessageId = index.indexMessageId;
+        }
+        this.indexPages = Array.isArray(index.indexPages) ? index.indexPages : [];
+        if (file.path !== this.indexFilePath) {
+          console.warn(`Loaded the index from backup ${file.path}`);
+        }
+        return { updatedAt: index.updatedAt ?? 0, stale: file.path !== this.indexFilePath };
+      }
+    } catch (err) {
+      console.warn('Failed to load index file:', err);
+      return { updatedAt: null, stale: true };
+    } finally {
+      this.rebuildIndexes();
+    }
+
+    return { updatedAt: null, stale: false };
+  }
+
+  /**
+   * Replace local state with the pinned chat index if it is newer than the
+   * local one. Returns the chat index's updatedAt if it did, otherwise null.
+   */
+  private async recoverIndexFromChat(
+    pinnedMessage: TransportMessage | undefined,
+    localUpdatedAt: number | null,
+    clearJournal: boolean = true
+  ): Promise<number | null> {
+    const indexData = await this.readIndexMessage(pinnedMessage);
+    if (!indexData || !pinnedMessage) {
+      return null;
+    }
+    if (localUpdatedAt != null && indexData.updatedAt <= localUpdatedAt) {
+      return null;
+    }
+
+    this.applyIndexData(indexData, pinnedMessage.message_id);
+    await this.writeIndexFile(indexData.updatedAt);
+    if (clearJournal) {
+      await this.clearJournal();
+    }
+    return indexData.updatedAt;
+  }
+
+  /**
+   * Decode the index a root message points to, reading its pages. With
+   * `received`, page texts received from the listener are used instead of
+   * being read from the chat.
+   */
+  private async readIndexMessage(
+    message: TransportMessage | undefined,
+    received: boolean = false
+  ): Promise<IndexMessageData | null> {
+    if (!message?.text || !message.text.startsWith(`${this.prefix}INDEX:`)) {
+      return null;
+    }
+
+    const root = this.decodeIndexPayload(message.text.substring(`${this.prefix}INDEX:`.length));
+    if (!root || root._id !== '__INDEX__') {
+      return null;
+    }
+
+    let indexData: IndexMessageData;
+    if (Array.isArray(root.pages)) {
+      indexData = {
+        _id: '__INDEX__',
+        _table: '__SYSTEM__',
+        messageIndex: [],
+        documents: [],
+        indexes: root.indexes,
+        transactions: [],
+        history: [],
+        updatedAt: root.updatedAt,
+        pages: [],
+      };
+      for (const messageIds of (root as IndexRootData).pages) {
+        const page = await this.readIndexPage(messageIds, received);
+        if (!page) {
+          return null;
+        }
+        indexData.messageIndex.push(...page.data.messageIndex);
+        indexData.documents.push(...page.data.documents);
+        indexData.transactions!.push(...(page.data.transactions ?? []));
+        indexData.history!.push(...(page.data.history ?? []));
+        indexData.pages!.push(page.page);
+      }
+    } else if (Array.isArray(root.messageIndex) && Array.isArray(root.documents)) {
+      indexData = root as IndexMessageData;
+    } else {
+      return null;
+    }
+
+    if (this.cipher) {
+      try {
+        indexData.documents = indexData.documents.map((doc: Document) => this.cipher!.decryptFields(doc));
+        if (Array.isArray(indexData.history)) {
+          indexData.history = this.mapHistoryDocuments(indexData.history, doc => this.cipher!.decryptFields(doc));
+        }
+      } catch (error: any) {
+        throw this.createIndexReadError(error);
+      }
+    }
+
+    return indexData;
+  }
+
+  /**
+   * Decode a payload of the chat index. Unlike an unreadable document, an
+   * index that can't be decrypted is an error: skipping it would start empty.
+   */
+  private decodeIndexPayload(payload: string): Document {
+    try {
+      return this.codec.decode(payload);
+    } catch (error: any) {
+      throw this.createIndexReadError(error);
+    }
+  }
+
+  private createIndexReadError(error: any): Error {
+    return new Error(
+      `The index in the chat can't be read: ${error?.message ?? error}. ` +
+      'Check the encryption key; an index written with another key or modified in the chat is rejected.'
+    );
+  }
+
+  /** Read and join the messages of one page of the chat index */
+  private async readIndexPage(
+    messageIds: number[],
+    received: boolean
+  ): Promise<{ page: IndexPage; data: IndexPageData } | null> {
+    const parts: MessagePart[] = [];
+    for (const messageId of messageIds) {
+      let text = received ? this.indexPartTexts.get(messageId) : undefined;
+      if (text === undefined) {
+        text = (await this.transport.getMessage(this.chatId, messageId))?.text;
+      }
+      const part = text ? decodePart(text, `${this.prefix}INDEX:PART:`) : null;
+      if (!part) {
+        return null;
+      }
+      this.indexPartTexts.set(messageId, text!);
+      parts.push(part);
+    }
+
+    const payload = joinParts(parts);
+    const data = payload !== null ? this.decodeIndexPayload(payload) as unknown as IndexPageData : null;
+    if (!data || !Array.isArray(data.messageIndex) || !Array.isArray(data.documents)) {
+      return null;
+    }
+
+    // In the order the page was written, for documents with a message index entry
+    const ids = new Set([
+      ...data.messageIndex.map(([id]) => id),
+      ...data.documents.map(doc => doc._id),
+      ...(data.history ?? []).map(([id]) => id),
+    ]);
+    return { page: { key: parts[0].id, ids: Array.from(ids), messageIds, hash: '' }, data };
+  }
+
+  /** Replace local state with an index. With a `source`, the differences are reported as changes. */
+  private applyIndexData(indexData: IndexMessageData, indexMessageId: number, source?: ChangeSource): void {
+    const previousDocuments = new Map(this.documentCache);
+    const previousMessageIndex = this.messageIndex;
+    const previousTransactions = this.documentTransactions;
+    const previousDocumentChats = this.documentChats;
+    const previousHistory = this.history;
+
+    this.setMessageIndex(indexData.messageIndex);
+    this.documentCache.clear();
+    indexData.documents.forEach((doc: Document) => {
+      if (doc && doc._id) {
+        this.documentCache.set(doc._id, doc);
+      }
+    });
+    this.documentTransactions = new Map(Array.isArray(indexData.transactions) ? indexData.transactions : []);
+    this.documentTransactions.forEach(tx => this.committedTransactions.add(tx));
+    this.history = new Map(Array.isArray(indexData.history) ? indexData.history : []);
+
+    const kept = new Set<string>();
+    if (source) {
+      // An index from another client may predate our own later updates
+      for (const [docId, doc] of previousDocuments) {
+        const incoming = this.documentCache.get(docId);
+        if (incoming && compareVersions(doc, incoming) > 0) {
+          kept.add(docId);
+          this.documentCache.set(docId, doc);
+          this.messageIndex.set(docId, previousMessageIndex.get(docId) ?? []);
+          this.setDocumentTransaction(docId, previousTransactions.get(docId));
+          const chatId = previousDocumentChats.get(docId);
+          if (chatId === undefined) {
+            this.documentChats.delete(docId);
+          } else {
+            this.documentChats.set(docId, chatId);
+          }
+          const history = previousHistory.get(docId);
+          if (history === undefined) {
+            this.history.delete(docId);
+          } else {
+            this.history.set(docId, history);
+          }
+        }
+      }
+    }
+    this.indexDefinitions = Array.isArray(indexData.indexes) ? indexData.indexes : [];
+    this.rebuildIndexes();
+    this.indexMessageId = indexMessageId;
+    this.indexPages = indexData.pages ?? [];
+    for (const page of this.indexPages) {
+      // Pages holding our own later versions must be written again
+      page.hash = page.ids.some(id => kept.has(id)) ? '' : this.hashIndexPage(this.getIndexPageData(page.ids));
+    }
+    this.pruneIndexPartTexts();
+
+    if (source) {
+      for (const doc of this.documentCache.values()) {
+        this.emitChange(previousDocuments.get(doc._id) ?? null, doc, source);
+      }
+      for (const [docId, doc] of previousDocuments) {
+        if (!this.documentCache.has(docId)) {
+          this.emitChange(doc, null, source);
+        }
+      }
+    }
+  }
+
+  private setMessageIndex(entries: MessageIndexEntry[]): void {
+    this.messageIndex = new Map();
+    this.documentChats = new Map();
+    for (const [docId, ids, chatId] of entries) {
+      this.messageIndex.set(docId, Array.isArray(ids) ? ids : [ids]);
+      if (chatId !== undefined && !this.router.isPrimary(chatId)) {
+        this.documentChats.set(docId, chatId);
+      }
+    }
+  }
+
+  private getMessageIndexEntries(): MessageIndexEntry[] {
+    return Array.from(this.messageIndex, ([docId, ids]) => this.getMessageIndexEntry(docId, ids));
+  }
+
+  private getMessageIndexEntry(docId: string, ids: number[]): MessageIndexEntry {
+    const chatId = this.documentChats.get(docId);
+    return chatId === undefined ? [docId, ids] : [docId, ids, chatId];
+  }
+
+  /** Chat holding a document's messages */
+  private getDocumentChat(id: string): string | number {
+    return this.documentChats.get(id) ?? this.chatId;
+  }
+
+  /** `chatId` of a journal entry or transaction snapshot; left out for the primary chat */
+  private chatField(chatId: string | number): { chatId?: string | number } {
+    return this.router.isPrimary(chatId) ? {} : { chatId };
+  }
+
+  /** What `rebuildIndex()` would recover from an index message, without applying it */
+  private describeIndexData(indexData: IndexMessageData, indexMessageId: number): IndexRebuildReport {
+    const documentIds = new Set(indexData.documents.map(doc => doc._id));
+    return {
+      indexMessageId,
+      documentCount: indexData.documents.length,
+      tables: Array.from(new Set(indexData.documents.map(doc => doc._table))),
+      missingDocuments: indexData.messageIndex.map(([id]) => id).filter(id => !documentIds.has(id)),
+      updatedAt: indexData.updatedAt,
+    };
+  }
+
+  private createRebuildReport(updatedAt: number | null = null): IndexRebuildReport {
+    const tables = new Set<string>();
+    for (const doc of this.documentCache.values()) {
+      tables.add(doc._table);
+    }
+
+    const missingDocuments: string[] = [];
+    for (const docId of this.messageIndex.keys()) {
+      if (!this.documentCache.has(docId)) {
+        missingDocuments.push(docId);
+      }
+    }
+
+    return {
+      indexMessageId: this.indexMessageId,
+      documentCount: this.documentCache.size,
+      tables: Array.from(tables),
+      missingDocuments,
+      updatedAt,
+    };
+  }
+
+  private async writeIndexFile(updatedAt: number = Date.now()): Promise<boolean> {
+    const indexFile: IndexFile = {
+      messageIndex: this.getMessageIndexEntries(),
+      documents: Array.from(this.documentCache.values()),
+      indexes: this.indexDefinitions,
+      transactions: Array.from(this.documentTransactions),
+      history: Array.from(this.history),
+      indexMessageId: this.indexMessageId,
+      indexPages: this.indexPages,
+      updatedAt,
+    };
+
+    try {
+      const dir = dirname(this.indexFilePath);
+      if (dir !== '.' && !existsSync(dir)) {
+        await mkdir(dir, { recursive: true });
+      }
+      await writeIndexFileAtomic(this.indexFilePath, encodeIndexFile(indexFile), this.indexBackups);
+      return true;
+    } catch (err) {
+      console.warn('Failed to save index file:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Write the index to the chat, then to the local file. Only the pages whose
+   * content changed are rewritten, in place where possible, then the pinned
+   * root is edited to list them. A root is sent and pinned only when there is
+   * none or it can't be edited. Returns whether the local file was written.
+   */
+  private async saveMessageIndex(): Promise<boolean> {
+    try {
+      const updatedAt = Date.now();
+      const rewrite = this.indexRewriteRequested;
+      this.indexRewriteRequested = false;
+      this.assignIndexPages();
+
+      const staleMessageIds: number[] = [];
+      for (const page of this.indexPages) {
+        if (page.ids.length === 0) {
+          staleMessageIds.push(...page.messageIds);
+          continue;
+        }
+        const data = this.getIndexPageData(page.ids);
+        const hash = this.hashIndexPage(data);
+        if (hash === page.hash && !rewrite) continue;
+
+        try {
+          // With field encryption, each document of the index is encrypted like its own message
+          const payload = encodePayload({
+            ...data,
+            documents: this.cipher ? data.documents.map(doc => this.cipher!.encryptFields(doc)) : data.documents,
+            history: this.cipher
+              ? this.mapHistoryDocuments(data.history, doc => this.cipher!.encryptFields(doc))
+              : data.history,
+          } as unknown as Document, this.codec);
+          const messages = encodeParts(payload, page.key, `${this.prefix}INDEX:PART:`, this.maxMessageLength);
+          page.messageIds = await this.rewriteMessages(messages, page.messageIds);
+          messages.forEach((text, i) => this.indexPartTexts.set(page.messageIds[i], text));
+          page.hash = hash;
+        } catch (err) {
+          // Written again on the next save
+          console.warn('Failed to write index page:', err);
+        }
+      }
+      this.indexPages = this.indexPages.filter(page => page.ids.length > 0);
+      this.pruneIndexPartTexts();
+
+      const root: IndexRootData = {
+        _id: '__INDEX__',
+        _table: '__SYSTEM__',
+        // A new page whose messages couldn't be sent is left out until the next save
+        pages: this.indexPages.filter(page => page.messageIds.length > 0).map(page => page.messageIds),
+        indexes: this.indexDefinitions,
+        updatedAt,
+      };
+      const rootMessage = encodeDocument(root as unknown as Document, `${this.prefix}INDEX:`, this.codec);
+      let pin = rewrite;
+      if (this.indexMessageId) {
+        try {
+          await this.editMessage(this.indexMessageId, rootMessage, this.chatId);
+        } catch {
+          staleMessageIds.push(this.indexMessageId);
+          this.indexMessageId = null;
+        }
+      }
+      if (!this.indexMessageId) {
+        try {
+          this.indexMessageId = (await this.transport.sendMessage(this.chatId, rootMessage)).message_id;
+          pin = true;
+        } catch (err) {
+          console.warn('Failed to send index message:', err);
+        }
+      }
+
+      if (this.indexMessageId && pin) {
+        // Pinned so a fresh instance can find the index through getChat()
+        try {
+          await this.transport.pinMessage(this.chatId, this.indexMessageId);
+        } catch (err) {
+          console.warn('Failed to pin index message:', err);
+        }
+      }
+
+      await this.deleteMessages(staleMessageIds);
+
+      return await this.writeIndexFile(updatedAt);
+    } catch (error) {
+      console.warn('Failed to save message index:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Put every document of the index on a page. A document stays on its page
+   * until it is removed; new ones fill the last page up to one message's worth.
+   */
+  private assignIndexPages(): void {
+    const ids = new Set([...this.messageIndex.keys(), ...this.documentCache.keys(), ...this.history.keys()]);
+    const assigned = new Set<string>();
+    for (const page of this.indexPages) {
+      page.ids = page.ids.filter(id => ids.has(id) && !assigned.has(id));
+      page.ids.forEach(id => assigned.add(id));
+    }
+
+    let last: IndexPage | undefined = this.indexPages[this.indexPages.length - 1];
+    let size = last ? JSON.stringify(this.getIndexPageData(last.ids)).length : 0;
+    for (const id of ids) {
+      if (assigned.has(id)) continue;
+      const entrySize = JSON.stringify(this.getIndexPageData([id])).length;
+      if (!last || (last.ids.length > 0 && size + entrySize > this.maxMessageLength - INDEX_PART_HEADER_ROOM)) {
+        last = { key: generateId(), ids: [], messageIds: [], hash: '' };
+        this.indexPages.push(last);
+        size = 0;
+      }
+      last.ids.push(id);
+      size += entrySize;
+    }
+  }
+
+  /** The index entries of some documents, as stored on a page */
+  private getIndexPageData(ids: string[]): IndexPageData {
+    const data: IndexPageData = { messageIndex: [], documents: [], transactions: [], history: [] };
+    for (const id of ids) {
+      const messageIds = this.messageIndex.get(id);
+      if (messageIds) {
+        data.messageIndex.push(this.getMessageIndexEntry(id, messageIds));
+      }
+      const doc = this.documentCache.get(id);
+      if (doc) {
+        data.documents.push(doc);
+      }
+      const tx = this.documentTransactions.get(id);
+      if (tx !== undefined) {
+        data.transactions.push([id, tx]);
+      }
+      const history = this.history.get(id);
+      if (history) {
+        data.history.push([id, history]);
+      }
+    }
+    return data;
+  }
+
+  private hashIndexPage(data: IndexPageData): string {
+    return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+  }
+
+  /** Forget the texts of messages no longer part of the chat index */
+  private pruneIndexPartTexts(): void {
+    const current = new Set(this.indexPages.flatMap(page => page.messageIds));
+    for (const messageId of Array.from(this.indexPartTexts.keys())) {
+      if (!current.has(messageId)) {
+        this.indexPartTexts.delete(messageId);
+      }
+    }
+  }
+
+  private getJournalPath(): string {
+    return `${this.indexFilePath}.journal`;
+  }
+
+  /** Apply a change to the in-memory index and append it to the local journal */
+  private async recordChange(entry: JournalEntry): Promise<void> {
+    if (entry.op === 'set' || entry.op === 'delete') {
+      const history = this.archiveVersion(entry);
+      if (history !== undefined) {
+        entry = { ...entry, history };
+      }
+    }
+    this.applyJournalEntry(entry, 'local');
+    this.pendingChanges++;
+
+    try {
+      const dir = dirname(this.indexFilePath);
+      if (dir !== '.' && !existsSync(dir)) {
+        await mkdir(dir, { recursive: true });
+      }
+      await appendFile(this.getJournalPath(), `${JSON.stringify(entry)}\n`, 'utf-8');
+    } catch (err) {
+      console.warn('Failed to write index journal:', err);
+    }
+  }
+
+  private applyJournalEntry(entry: JournalEntry, source?: ChangeSource): void {
+    if (entry.op !== 'indexes' && entry.history !== undefined) {
+      if (entry.history === null) {
+        this.history.delete(entry.id);
+      } else {
+        this.history.set(entry.id, entry.history);
+      }
+    }
+
+    if (entry.op === 'set') {
+      this.setDocumentTransaction(entry.id, entry.tx);
+      this.cacheDocument(entry.doc, entry.messageIds, entry.chatId ?? this.chatId, source);
+    } else if (entry.op === 'delete') {
+      this.uncacheDocument(entry.id, source);
+    } else if (entry.op === 'indexes') {
+      this.indexDefinitions = entry.definitions;
+      this.rebuildIndexes();
+    }
+  }
+
+  /**
+   * Store a document in the cache and keep the table and secondary indexes in
+   * step. With a `source`, the change is reported to change streams.
+   */
+  private cacheDocument(
+    doc: Document,
+    messageIds: number[],
+    chatId: string | number,
+    source?: ChangeSource
+  ): void {
+    const previous = this.documentCache.get(doc._id);
+    if (previous && previous._table !== doc._table) {
+      this.uncacheDocument(doc._id);
+    }
+
+    this.messageIndex.set(doc._id, messageIds);
+    if (this.router.isPrimary(chatId)) {
+      this.documentChats.delete(doc._id);
+    } else {
+      this.documentChats.set(doc._id, chatId);
+    }
+    this.documentCache.set(doc._id, doc);
+
+    let ids = this.tableIndex.get(doc._table);
+    if (!ids) {
+      ids = new Set();
+      this.tableIndex.set(doc._table, ids);
+    }
+    ids.add(doc._id);
+
+    for (const index of this.secondaryIndexes.get(doc._table) ?? []) {
+      if (previous && previous._table === doc._table) {
+        index.update(previous, doc);
+      } else {
+        index.add(doc);
+      }
+    }
+
+    if (source) {
+      this.emitChange(previous ?? null, doc, source);
+    }
+  }
+
+  /** Record which transaction wrote the stored version of a document, if any */
+  private setDocumentTransaction(id: string, tx: string | undefined): void {
+    if (tx === undefined) {
+      this.documentTransactions.delete(id);
+    } else {
+      this.documentTransactions.set(id, tx);
+    }
+  }
+
+  private uncacheDocument(id: string, source?: ChangeSource): void {
+    const doc = this.documentCache.get(id);
+    this.messageIndex.delete(id);
+    this.documentTransactions.delete(id);
+    this.documentChats.delete(id);
+    this.documentCache.delete(id);
+    if (!doc) {
+      return;
+    }
+    if (source) {
+      this.emitChange(doc, null, source);
+    }
+
+    const ids = this.tableIndex.get(doc._table);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      this.tableIndex.delete(doc._table);
+    }
+    for (const index of this.secondaryIndexes.get(doc._table) ?? []) {
+      index.remove(doc);
+    }
+  }
+
+  /** Report a change to every open change stream, after the current operation */
+  private emitChange(before: Document | null, after: Document | null, source: ChangeSource): void {
+    if (this.changeStreams.size === 0 || (before && after && isEqual(before, after))) {
+      return;
+    }
+
+    const doc = (after ?? before)!;
+    const event: ChangeEvent = {
+      type: !before ? 'insert' : !after ? 'delete' : 'update',
+      table: doc._table,
+      documentId: doc._id,
+      before,
+      after,
+      source,
+      timestamp: Date.now(),
+    };
+    const streams = Array.from(this.changeStreams);
+    queueMicrotask(() => streams.forEach(stream => stream.push(event)));
+  }
+
+  /** Rebuild the table and secondary indexes from the document cache */
+  private rebuildIndexes(): void {
+    this.tableIndex.clear();
+    this.secondaryIndexes.clear();
+
+    for (const definition of this.indexDefinitions) {
+      const indexes = this.secondaryIndexes.get(definition.table) ?? [];
+      indexes.push(new SecondaryIndex(definition.field, definition.unique));
+      this.secondaryIndexes.set(definition.table, indexes);
+    }
+
+    for (const doc of this.documentCache.values()) {
+      let ids = this.tableIndex.get(doc._table);
+      if (!ids) {
+        ids = new Set();
+        this.tableIndex.set(doc._table, ids);
+      }
+      ids.add(doc._id);
+      for (const index of this.secondaryIndexes.get(doc._table) ?? []) {
+        index.add(doc);
+      }
+    }
+  }
+
+  /** Throws unless the table has the `history` option */
+  private assertHistory(table: string): void {
+    if (!this.historyRetention.has(table)) {
+      throw new Error(`History is not enabled for table ${table}`);
+    }
+  }
+
+  /** Documents of a table matching the filter as they were at `asOf` */
+  private findAsOf(filter: QueryFilter, table: string, asOf: number | string | Date): Document[] {
+    this.assertHistory(table);
+    const time = asOf instanceof Date ? asOf.getTime() : typeof asOf === 'string' ? Date.parse(asOf) : asOf;
+    if (typeof time !== 'number' || Number.isNaN(time)) {
+      throw new Error(`Invalid asOf time: ${asOf}`);
+    }
+
+    const queryWithTable = { ...filter, _table: table };
+    const ids = new Set([...(this.tableIndex.get(table) ?? []), ...this.history.keys()]);
+    const documents: Document[] = [];
+    for (const id of ids) {
+      const doc = this.versionAt(id, time);
+      if (doc && !isExpired(doc, time) && matchesFilter(doc, queryWithTable)) {
+        documents.push(doc);
+      }
+    }
+    return documents;
+  }
+
+  /** Version of a document current at `time`; documents without history are taken as always current */
+  private versionAt(id: string, time: number): Document | null {
+    const entry = this.history.get(id);
+    const current = this.documentCache.get(id) ?? null;
+    if (!entry || (current && (entry.since === undefined || entry.since <= time))) {
+      return current;
+    }
+    const version = entry.versions.find(archived => (archived.from ?? -Infinity) <= time && time < archived.to);
+    return version ? version.doc : null;
+  }
+
+  /**
+   * History of a document after a set or delete in a table with history:
+   * undefined to leave it alone, null to drop it.
+   */
+  private archiveVersion(
+    entry: Extract<JournalEntry, { op: 'set' | 'delete' }>
+  ): HistoryEntry | null | undefined {
+    const previous = this.documentCache.get(entry.id);
+    const table = entry.op === 'set' ? entry.doc._table : previous?._table;
+    const retention = table !== undefined ? this.historyRetention.get(table) : undefined;
+    if (!retention || (entry.op === 'set' && previous && isEqual(previous, entry.doc))) {
+      return undefined;
+    }
+
+    const history = this.history.get(entry.id);
+    const versions = history ? [...history.versions] : [];
+    if (previous) {
+      versions.push({
+        doc: previous,
+        from: history?.since ?? null,
+        to: entry.at,
+        ...(entry.op === 'delete' ? { deleted: true } : {}),
+      });
+    }
+    return this.pruneHistory({ ...(entry.op === 'set' ? { since: entry.at } : {}), versions }, retention, entry.at);
+  }
+
+  /** Drop versions beyond the retention limits; null once nothing is left to keep */
+  private pruneHistory(history: HistoryEntry, retention: HistoryRetention, now: number): HistoryEntry | null {
+    let versions = history.versions;
+    if (retention.maxAge !== undefined) {
+      versions = versions.filter(version => version.to > now - retention.maxAge!);
+    }
+    if (retention.maxVersions !== undefined) {
+      versions = versions.slice(Math.max(0, versions.length - retention.maxVersions));
+    }
+    return versions.length === 0 && history.since === undefined ? null : { ...history, versions };
+  }
+
+  /** Drop versions older than their table's `maxAge`, for documents that have not changed since */
+  private async pruneHistories(now: number): Promise<void> {
+    for (const [id, history] of Array.from(this.history)) {
+      const last = history.versions[history.versions.length - 1];
+      const table = this.documentCache.get(id)?._table ?? last?.doc._table;
+      const retention = table !== undefined ? this.historyRetention.get(table) : undefined;
+      if (retention?.maxAge === undefined) continue;
+
+      const pruned = this.pruneHistory(history, retention, now);
+      if (pruned === null || pruned.versions.length < history.versions.length) {
+        await this.recordChange({ op: 'history', id, history: pruned, at: now });
+      }
+    }
+  }
+
+  private mapHistoryDocuments(
+    entries: Array<[string, HistoryEntry]>,
+    map: (doc: Document) => Document
+  ): Array<[string, HistoryEntry]> {
+    return entries.map(([id, history]) => [
+      id,
+      { ...history, versions: history.versions.map(version => ({ ...version, doc: map(version.doc) })) },
+    ]);
+  }
+
+  /** Documents of a table that haven't expired */
+  private getTableDocuments(table: string): Document[] {
+    const now = Date.now();
+    return Array.from(this.tableIndex.get(table) ?? [], id => this.documentCache.get(id))
+      .filter((doc): doc is Document => !!doc && !isExpired(doc, now));
+  }
+
+  /**
+   * Candidate document ids for a query. An `_id` equality or the most selective
+   * indexed field narrows the scan; otherwise the whole table is scanned.
+   * Candidates are still checked against the full filter.
+   */
+  private planQuery(filter: QueryFilter, table: string): Iterable<string> {
+    if (typeof filter._id === 'string') {
+      return [filter._id];
+    }
+
+    let best: Set<string> | null = null;
+    for (const index of this.secondaryIndexes.get(table) ?? []) {
+      if (!(index.field in filter)) continue;
+      const ids = index.lookup(filter[index.field]);
+      if (ids && (!best || ids.size < best.size)) {
+        best = ids;
+      }
+    }
+
+    // Copied so documents written while the caller iterates don't affect it
+    return Array.from(best ?? this.tableIndex.get(table) ?? []);
+  }
+
+  /**
+   * A new document as it will be stored: id, revision and schema defaults
+   * filled in. Returns a failed result if it is invalid or `_id` is taken.
+   */
+  private prepareInsert(
+    doc: Partial<Document>,
+    table: string,
+    exists: (id: string) => boolean = id => this.documentCache.has(id)
+  ): Document | OperationResult {
+    const id = doc._id || generateId();
+    // Revisions of a document deleted and inserted again continue from its history
+    const archived = this.history.get(id)?.versions;
+    let document: Document = {
+      ...doc,
+      _id: id,
+      _table: table,
+      _rev: archived?.length ? (archived[archived.length - 1].doc._rev ?? 0) + 1 : 1,
+    };
+
+    const ttl = this.ttls.get(table);
+    if (ttl !== undefined && document.expireAt === undefined) {
+      document.expireAt = Date.now() + ttl;
+    }
+
+    const schema = this.schemas.get(table);
+    if (schema) {
+      document = applySchemaDefaults(document, schema);
+      const issues = validateDocument(document, schema);
+      if (issues.length > 0) {
+        return this.validationResult(issues);
+      }
+    }
+
+    if (exists(document._id)) {
+      return this.duplicateKeyResult({ field: '_id', value: document._id, existingId: document._id });
+    }
+
+    return document;
+  }
+
+  /** New versions of `documents` after an update, or a failed result if one would be invalid */
+  private prepareUpdate(
+    documents: Document[],
+    update: UpdateSpec,
+    table: string,
+    options: UpdateOptions
+  ): Document[] | OperationResult {
+    const useOperators = isOperatorUpdate(update);
+    const schema = this.schemas.get(table);
+    const changes: Document[] = documents.map(doc => {
+      let changed: Document;
+      if (options.replace) {
+        const replacement: Document = { ...update, _id: doc._id, _table: doc._table };
+        if (replacement.expireAt === undefined && doc.expireAt !== undefined) {
+          replacement.expireAt = doc.expireAt;
+        }
+        changed = schema ? applySchemaDefaults(replacement, schema) : replacement;
+      } else {
+        changed = useOperators
+          ? applyUpdateOperators(doc, update)
+          : deepMerge(doc, { ...update, _id: doc._id });
+      }
+      return { ...changed, _rev: (doc._rev ?? 0) + 1 };
+    });
+
+    if (schema) {
+      for (const changed of changes) {
+        const issues = validateDocument(changed, schema);
+        if (issues.length > 0) {
+          return this.validationResult(issues, changed._id);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * First unique-index violation that writing `docs` would cause. Documents in
+   * `replacing` are being rewritten, so their current values don't count.
+   */
+  private findDuplicateKey(
+    docs: Document[],
+    table: string,
+    replacing: Set<string> = new Set(),
+    indexes: SecondaryIndex[] = this.secondaryIndexes.get(table) ?? []
+  ): DuplicateKeyError | null {
+    for (const index of indexes) {
+      if (!index.unique) continue;
+
+      const written = new Map<string, string>();
+      for (const doc of docs) {
+        for (const key of index.keysOf(doc)) {
+          const existingId = [...index.getIds(key)].find(id =>
+            id !== doc._id && !replacing.has(id) && !isExpired(this.documentCache.get(id)!)
+          ) ?? written.get(key);
+          if (existingId !== undefined && existingId !== doc._id) {
+            return { field: index.field, value: JSON.parse(key), existingId };
+          }
+          written.set(key, doc._id);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Compare the cached revisions of documents about to be updated with
+   * `ifRev`. Other clients' updates reach the cache through the message
+   * listener; reading each document back from the chat instead would cost a
+   * forward and a delete per message with the Bot API.
+   */
+  private checkRevisions(documents: Document[], ifRev: number): RevisionConflict | null {
+    for (const doc of documents) {
+      const actualRev = doc._rev ?? 0;
+      if (actualRev !== ifRev) {
+        return { documentId: doc._id, expectedRev: ifRev, actualRev };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a document from its messages in the chat; null if they can't be read
+   * or hold a version written by a transaction that hasn't committed.
+   */
+  private async readStoredDocument(id: string): Promise<Document | null> {
+    const doc = await this.readMessages(this.messageIndex.get(id) ?? [], this.getDocumentChat(id));
+    if (!doc || doc._id !== id) {
+      return null;
+    }
+    if (doc._tx === undefined) {
+      return doc;
+    }
+
+    const { _tx, ...committed } = doc;
+    return this.committedTransactions.has(_tx) ? committed as Document : null;
+  }
+
+  /** Decode the document stored in messages, as written */
+  private async readMessages(messageIds: number[], chatId: string | number): Promise<Document | null> {
+    if (messageIds.length === 0) {
+      return null;
+    }
+
+    try {
+      const texts: string[] = [];
+      for (const messageId of messageIds) {
+        const message = await this.transport.getMessage(chatId, messageId);
+        if (!message?.text) {
+          return null;
+        }
+        texts.push(message.text);
+      }
+
+      let doc: Document | null;
+      if (texts.length === 1) {
+        doc = decodeDocument(texts[0], this.prefix, this.codec);
+      } else {
+        const parts = texts.map(text => decodePart(text, `${this.prefix}PART:`));
+        doc = parts.every(part => part !== null)
+          ? decodeDocumentParts(parts as MessagePart[], this.codec)
+          : null;
+      }
+      return doc;
+    } catch {
+      return null;
+    }
+  }
+
+  private conflictResult(conflict: RevisionConflict): OperationResult {
+    return {
+      success: false,
+      code: 'CONFLICT',
+      data: conflict,
+      message: `Revision conflict on ${conflict.documentId}: expected ${conflict.expectedRev}, found ${conflict.actualRev}`,
+    };
+  }
+
+  private validationResult(errors: ValidationIssue[], documentId?: string): OperationResult {
+    return {
+      success: false,
+      code: 'VALIDATION_ERROR',
+      data: documentId ? { documentId, errors } : { errors },
+      message: `Validation failed: ${errors.map(issue => issue.message).join('; ')}`,
+    };
+  }
+
+  private duplicateKeyResult(duplicate: DuplicateKeyError): OperationResult {
+    return {
+      success: false,
+      code: 'DUPLICATE_KEY',
+      data: duplicate,
+      message: `Duplicate key: ${duplicate.field} ${JSON.stringify(duplicate.value)} already exists`,
+    };
+  }
+
+  /** Flush now or later, depending on indexWriteMode */
+  private async persistIndex(): Promise<void> {
+    if (this.pendingChanges === 0) {
+      return;
+    }
+
+    if (this.indexWriteMode === 'immediate') {
+      if (this.batchDepth === 0) {
+        await this.flush();
+      }
+      return;
+    }
+
+    if (this.pendingChanges >= this.indexFlushThreshold) {
+      await this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush().catch(err => console.warn('Failed to flush index:', err));
+      }, this.indexFlushInterval);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * The journal is moved aside while flushing so changes made during the flush
+   * land in a fresh journal. It is only deleted once the index file is written.
+   */
+  private async flushIndex(): Promise<void> {
+    const journalPath = this.getJournalPath();
+    const flushingPath = `${journalPath}.flushing`;
+    this.pendingChanges = 0;
+
+    try {
+      if (existsSync(journalPath)) {
+        if (existsSync(flushingPath)) {
+          await appendFile(flushingPath, await readFile(journalPath, 'utf-8'), 'utf-8');
+          await unlink(journalPath);
+        } else {
+          await rename(journalPath, flushingPath);
+        }
+      }
+    } catch (err) {
+      console.warn('Failed to rotate index journal:', err);
+    }
+
+    if (await this.saveMessageIndex()) {
+      try {
+        if (existsSync(flushingPath)) {
+          await unlink(flushingPath);
+        }
+      } catch (err) {
+        console.warn('Failed to remove index journal:', err);
+      }
+    } else {
+      this.pendingChanges++;
+    }
+  }
+
+  /** Re-apply changes that were journaled but never flushed. Returns the time of the last one. */
+  private async replayJournal(): Promise<number | null> {
+    let lastChangeAt: number | null = null;
+
+    for (const path of [`${this.getJournalPath()}.flushing`, this.getJournalPath()]) {
+      if (!existsSync(path)) continue;
+
+      try {
+        const lines = (await readFile(path, 'utf-8')).split('\n');
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          try {
+            const entry: JournalEntry = JSON.parse(line);
+            this.applyJournalEntry(entry);
+            this.pendingChanges++;
+            lastChangeAt = Math.max(lastChangeAt ?? 0, entry.at);
+          } catch {
+            // A torn last line from a crash mid-append
+          }
+        }
+      } catch (err) {
+        console.warn('Failed to read index journal:', err);
+      }
+    }
+
+    return lastChangeAt;
+  }
+
+  /** Drop journaled changes, e.g. after replacing local state with the chat index */
+  private async clearJournal(): Promise<void> {
+    this.pendingChanges = 0;
+    for (const path of [`${this.getJournalPath()}.flushing`, this.getJournalPath()]) {
+      try {
+        if (existsSync(path)) {
+          await unlink(path);
+        }
+      } catch (err) {
+        console.warn('Failed to remove index journal:', err);
+      }
+    }
+  }
+
+  /** Check a transaction's writes against the committed state, then write them */
+  private async commitTransaction(txId: string, writes: TransactionWrite[], value: any): Promise<OperationResult> {
+    try {
+      // A commit interrupted earlier is finished or undone first
+      const recovered = await this.recoverTransaction() !== null;
+      // The transaction saw expired documents as absent
+      const expired = await this.deleteExpired(writes.map(write => write.id));
+      if (recovered || expired > 0) {
+        await this.persistIndex();
+      }
+
+      for (const write of writes) {
+        const current = this.documentCache.get(write.id) ?? null;
+        if (current !== write.original && !(current && write.original && isEqual(current, write.original))) {
+          return this.conflictResult({
+            documentId: write.id,
+            expectedRev: write.original?._rev ?? 0,
+            actualRev: current?._rev ?? 0,
+          });
+        }
+      }
+
+      for (const table of new Set(writes.map(write => write.table))) {
+        const tableWrites = writes.filter(write => write.table === table);
+        const duplicate = this.findDuplicateKey(
+          tableWrites.filter(write => write.doc).map(write => write.doc!),
+          table,
+          new Set(tableWrites.map(write => write.id))
+        );
+        if (duplicate) {
+          return this.duplicateKeyResult(duplicate);
+        }
+      }
+
+      if (writes.length > 0) {
+        await this.writeTransaction(txId, writes);
+        await this.persistIndex();
+      }
+
+      return {
+        success: true,
+        data: value,
+        message: `Committed ${writes.length} change(s)`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        message: `Failed to commit transaction: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Write each document with a `_tx` field naming the transaction, then the
+   * commit marker. Every step is logged first, so a commit interrupted by a
+   * crash is finished or undone on the next start. Deleted documents lose
+   * their messages only after the marker.
+   */
+  private async writeTransaction(txId: string, writes: TransactionWrite[]): Promise<void> {
+    const previous: TransactionSnapshot[] = writes.map(write => ({
+      id: write.id,
+      doc: write.original,
+      messageIds: this.messageIndex.get(write.id) ?? [],
+      ...this.chatField(write.original ? this.getDocumentChat(write.id) : this.router.route(write.table, write.id)),
+    }));
+    const chats = new Map(previous.map(snapshot => [snapshot.id, snapshot.chatId ?? this.chatId]));
+    await this.writeTransactionLog({ op: 'begin', tx: txId, previous, at: Date.now() });
+
+    const written = new Map<string, number[]>();
+    let markerId: number;
+    try {
+      for (const write of writes) {
+        if (!write.doc) continue;
+
+        const stored: Document = { ...write.doc, _tx: txId };
+        const messageIds = write.original
+          ? await this.rewriteDocument(stored)
+          : await this.sendMessages(
+              encodeDocumentParts(stored, this.prefix, this.maxMessageLength, this.codec),
+              chats.get(write.id)
+            );
+        written.set(write.id, messageIds);
+        await this.writeTransactionLog({ op: 'written', id: write.id, messageIds });
+      }
+
+      const marker: TransactionMarker = {
+        _id: txId,
+        _table: '__SYSTEM__',
+        deleted: writes.filter(write => !write.doc).map(write => write.id),
+      };
+      const sentMessage = await this.transport.sendMessage(
+        this.chatId,
+        encodeDocument(marker as Document, `${this.prefix}TX:`, this.codec)
+      );
+      markerId = sentMessage.message_id;
+    } catch (error) {
+      try {
+        await this.rollbackTransaction(txId, previous, written);
+      } catch (rollbackError) {
+        console.warn('Failed to roll back transaction, retrying on next commit or restart:', rollbackError);
+      }
+      throw error;
+    }
+
+    const at = Date.now();
+    const changes: JournalEntry[] = writes.map((write): JournalEntry => write.doc
+      ? {
+          op: 'set',
+          id: write.id,
+          messageIds: written.get(write.id)!,
+          ...this.chatField(chats.get(write.id)!),
+          doc: write.doc,
+          tx: txId,
+          at,
+        }
+      : { op: 'delete', id: write.id, at });
+    await this.writeTransactionLog({ op: 'commit', changes, at });
+    await this.applyTransaction(txId, previous, changes);
+    // Clients listening have applied it by now; later ones read the index
+    await this.deleteMessages([markerId]);
+  }
+
+  /** Record the changes of a committed transaction and delete the messages of deleted documents */
+  private async applyTransaction(
+    txId: string,
+    previous: TransactionSnapshot[],
+    changes: JournalEntry[]
+  ): Promise<void> {
+    this.committedTransactions.add(txId);
+
+    this.batchDepth++;
+    try {
+      for (const change of changes) {
+        await this.recordChange(change);
+      }
+    } finally {
+      this.batchDepth--;
+    }
+
+    const deleted = new Set(changes.flatMap(change => change.op === 'delete' ? [change.id] : []));
+    for (const snapshot of previous.filter(snapshot => deleted.has(snapshot.id))) {
+      await this.deleteMessages(snapshot.messageIds, snapshot.chatId);
+    }
+    await this.clearTransactionLog();
+  }
+
+  /**
+   * Give the documents a transaction wrote their previous version back, and
+   * delete the ones it inserted. Messages that don't hold the transaction's
+   * version were never written or have been changed since, and are left alone.
+   */
+  private async rollbackTransaction(
+    txId: string,
+    previous: TransactionSnapshot[],
+    written: Map<string, number[]>
+  ): Promise<void> {
+    for (const snapshot of previous) {
+      const chatId = snapshot.chatId ?? this.chatId;
+      const messageIds = written.get(snapshot.id) ?? snapshot.messageIds;
+      if (!snapshot.doc) {
+        await this.deleteMessages(written.get(snapshot.id) ?? [], chatId);
+        continue;
+      }
+
+      const stored = await this.readMessages(messageIds, chatId);
+      if (stored && stored._tx !== txId) continue;
+
+      const restoredIds = await this.rewriteDocument(snapshot.doc, messageIds, chatId);
+      if (!isEqual(restoredIds, snapshot.messageIds) && isEqual(this.documentCache.get(snapshot.id), snapshot.doc)) {
+        await this.recordChange({
+          op: 'set',
+          id: snapshot.id,
+          messageIds: restoredIds,
+          ...this.chatField(chatId),
+          doc: snapshot.doc,
+          at: Date.now(),
+        });
+      }
+    }
+
+    await this.clearTransactionLog();
+  }
+
+  /**
+   * Finish or undo a commit left in the transaction log by a crash, after
+   * learning from the index which transactions wrote the stored versions of
+   * documents: those have committed. Returns the time of the commit if it
+   * was finished, otherwise null.
+   */
+  private async recoverTransaction(): Promise<number | null> {
+    for (const tx of this.documentTransactions.values()) {
+      this.committedTransactions.add(tx);
+    }
+
+    const path = this.getTransactionLogPath();
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    let begin: Extract<TransactionLogEntry, { op: 'begin' }> | null = null;
+    let commit: Extract<TransactionLogEntry, { op: 'commit' }> | null = null;
+    const written = new Map<string, number[]>();
+    try {
+      for (const line of (await readFile(path, 'utf-8')).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const entry: TransactionLogEntry = JSON.parse(line);
+          if (entry.op === 'begin') {
+            begin = entry;
+          } else if (entry.op === 'written') {
+            written.set(entry.id, entry.messageIds);
+          } else {
+            commit = entry;
+          }
+        } catch {
+          // A torn last line from a crash mid-append
+        }
+      }
+    } catch (err) {
+      console.warn('Failed to read transaction log:', err);
+      return null;
+    }
+
+    if (!begin) {
+      await this.clearTransactionLog();
+      return null;
+    }
+    if (commit) {
+      await this.applyTransaction(begin.tx, begin.previous, commit.changes);
+      return commit.at;
+    }
+    await this.rollbackTransaction(begin.tx, begin.previous, written);
+    return null;
+  }
+
+  private getTransactionLogPath(): string {
+    return `${this.indexFilePath}.tx`;
+  }
+
+  /** A `begin` entry starts a new log; others are appended */
+  private async writeTransactionLog(entry: TransactionLogEntry): Promise<void> {
+    try {
+      const dir = dirname(this.indexFilePath);
+      if (dir !== '.' && !existsSync(dir)) {
+        await mkdir(dir, { recursive: true });
+      }
+      const line = `${JSON.stringify(entry)}\n`;
+      if (entry.op === 'begin') {
+        await writeFile(this.getTransactionLogPath(), line, 'utf-8');
+      } else {
+        await appendFile(this.getTransactionLogPath(), line, 'utf-8');
+      }
+    } catch (err) {
+      console.warn('Failed to write transaction log:', err);
+    }
+  }
+
+  private async clearTransactionLog(): Promise<void> {
+    try {
+      if (existsSync(this.getTransactionLogPath())) {
+        await unlink(this.getTransactionLogPath());
+      }
+    } catch (err) {
+      console.warn('Failed to remove transaction log:', err);
+    }
+  }
+
+  /** Insert documents from an import source; unparseable records arrive as Errors */
+  private async importDocuments(
+    documents: AsyncIterable<Document | Error> | Iterable<Document | Error>,
+    options: ImportOptions,
+    total?: number
+  ): Promise<OperationResult> {
+    const report: ImportReport = { importedCount: 0, skippedCount: 0, failed: [] };
+    const delay = options.delay ?? this.batchDelay;
+    let position = 0;
+
+    const progress = (): ImportProgress => ({
+      processed: position,
+      imported: report.importedCount,
+      skipped: report.skippedCount,
+      failed: report.failed.length,
+      total,
+    });
+
+    this.batchDepth++;
+    try {
+      for await (const record of documents) {
+        position++;
+        if (position > 1 && delay > 0) {
+          await this.sleep(delay);
+        }
+
+        const result = record instanceof Error
+          ? { success: false, message: record.message }
+          : await this.importDocument(record, options);
+        if (result === null) {
+          report.skippedCount++;
+        } else if (result.success) {
+          report.importedCount++;
+        } else {
+          report.failed.push({
+            position,
+            documentId: record instanceof Error ? undefined : record._id,
+            code: result.code,
+            message: result.message ?? 'Import failed',
           });
-          this.indexMessageId = message.message_id;
+        }
+        options.onProgress?.(progress());
+
+        if (result && !result.success && options.stopOnError) {
+          break;
+        }
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error,
+        data: report,
+        message: `Failed to import documents: ${error.message}`,
+      };
+    } finally {
+      this.batchDepth--;
+      await this.persistIndex();
+    }
+
+    return {
+      success: report.failed.length === 0,
+      data: report,
+      message: `Imported ${report.importedCount} document(s), skipped ${report.skippedCount}, failed ${report.failed.length}`,
+    };
+  }
+
+  /** Null when the document is skipped */
+  private async importDocument(record: Document, options: ImportOptions): Promise<OperationResult | null> {
+    const { _id, _table, _rev, ...fields } = record;
+    const table = _table ?? options.table;
+    if (typeof table !== 'string' || !table) {
+      return { success: false, message: 'Document has no _table and no table option was given' };
+    }
+    if (options.tables && !options.tables.includes(table)) {
+      return null;
+    }
+
+    if (options.ids === 'regenerate' || _id === undefined) {
+      return this.insert(fields, table);
+    }
+
+    const id = String(_id);
+    if (this.documentCache.has(id)) {
+      switch (options.onConflict ?? 'error') {
+        case 'skip':
+          return null;
+        case 'overwrite':
+          return this.update({ _id: id }, fields, table, { replace: true });
+      }
+    }
+    return this.insert({ ...fields, _id: id }, table);
+  }
+
+  /** Send messages in order. If one fails, the ones already sent are deleted. */
+  private async sendMessages(messages: string[], chatId: string | number = this.chatId): Promise<number[]> {
+    const messageIds: number[] = [];
+
+    try {
+      for (const message of messages) {
+        const sentMessage = await this.transport.sendMessage(chatId, message);
+        messageIds.push(sentMessage.message_id);
+      }
+    } catch (error) {
+      await this.deleteMessages(messageIds, chatId);
+      throw error;
+    }
+
+    return messageIds;
+  }
+
+  /**
+   * Write a new version of a stored document by editing its existing messages,
+   * so its message ids stay stable. Parts are sent or deleted when the part
+   * count changes. If editing fails, the document is resent in full before
+   * the old messages are deleted, so a copy exists at every point.
+   */
+  private async rewriteDocument(
+    updated: Document,
+    oldMessageIds: number[] = this.messageIndex.get(updated._id) ?? [],
+    chatId: string | number = this.getDocumentChat(updated._id)
+  ): Promise<number[]> {
+    const messages = encodeDocumentParts(updated, this.prefix, this.maxMessageLength, this.codec);
+    return this.rewriteMessages(messages, oldMessageIds, chatId);
+  }
+
+  /** Edit messages in place to hold new texts, sending or deleting the difference in count */
+  private async rewriteMessages(
+    messages: string[],
+    oldMessageIds: number[],
+    chatId: string | number = this.chatId
+  ): Promise<number[]> {
+    const editCount = Math.min(messages.length, oldMessageIds.length);
+
+    try {
+      for (let i = 0; i < editCount; i++) {
+        await this.editMessage(oldMessageIds[i], messages[i], chatId);
+      }
+    } catch {
+      const messageIds = await this.sendMessages(messages, chatId);
+      await this.deleteMessages(oldMessageIds, chatId);
+      return messageIds;
+    }
+
+    const extraIds = await this.sendMessages(messages.slice(editCount), chatId);
+    await this.deleteMessages(oldMessageIds.slice(editCount), chatId);
+
+    return [...oldMessageIds.slice(0, editCount), ...extraIds];
+  }
+
+  private async editMessage(messageId: number, text: string, chatId: string | number): Promise<void> {
+    try {
+      await this.transport.editMessageText(chatId, messageId, text);
+    } catch (error: any) {
+      // Same content as before counts as a successful edit
+      if (!/message is not modified/i.test(error?.description ?? error?.message ?? '')) {
+        throw error;
+      }
+    }
+  }
+
+  /** Best-effort delete; errors are ignored */
+  private async deleteMessages(messageIds: number[], chatId: string | number = this.chatId): Promise<void> {
+    for (const messageId of messageIds) {
+      try {
+        await this.transport.deleteMessage(chatId, messageId);
+      } catch {
+        // Ignore errors
+      }
+    }
+  }
+
+  private async setupMessageListener(): Promise<void> {
+    if (this.listenerRegistered) {
+      await this.transport.start();
+      return;
+    }
+    this.listenerRegistered = true;
+
+    this.transport.onMessage(async (message: TransportMessage) => {
+      // Forwards are copies, such as those getMessage makes, never the stored document
+      if (!message.text || message.forwarded) return;
+
+      const text = message.text;
+      const chatId = message.chat_id;
+      if (!this.router.getChats().some(shard => sameChat(shard, chatId))) return;
+
+      // The index and transaction markers live in the primary chat only
+      if (!this.router.isPrimary(chatId)) {
+        if (text.startsWith(`${this.prefix}INDEX:`) || text.startsWith(`${this.prefix}TX:`)) return;
+      }
+
+      if (text.startsWith(`${this.prefix}INDEX:PART:`)) {
+        this.indexPartTexts.set(message.message_id, text);
+      } else if (text.startsWith(`${this.prefix}INDEX:`)) {
+        try {
+          const indexData = await this.readIndexMessage(message, true);
+          if (indexData) {
+            this.applyIndexData(indexData, message.message_id, 'remote');
+          }
+        } catch (error) {
+          console.warn('Ignored an index message from another client:', error);
+        }
+      } else if (text.startsWith(`${this.prefix}TX:`)) {
+        const marker = decodeDocument(text, `${this.prefix}TX:`, this.codec);
+        if (marker && marker._id && Array.isArray(marker.deleted)) {
+          this.receiveTransaction(marker as TransactionMarker);
+        }
+      } else if (text.startsWith(`${this.prefix}PART:`)) {
+        const part = decodePart(text, `${this.prefix}PART:`);
+        if (part) {
+          this.receivePart(part, message.message_id, chatId);
+        }
+      } else if (text.startsWith(this.prefix)) {
+        const doc = decodeDocument(text, this.prefix, this.codec);
+        if (doc && doc._id) {
+          this.receiveDocument(doc, [message.message_id], chatId);
         }
       }
     });
-    
-    this.bot.launch().catch(() => {});
+
+    await this.transport.start();
+  }
+
+  /** Buffer a document part from another client until all parts have arrived */
+  private receivePart(part: MessagePart, messageId: number, chatId: string | number): void {
+    const key = `${chatId}:${part.id}`;
+    let pending = this.pendingParts.get(key);
+    if (!pending || pending.parts[0].total !== part.total || pending.messageIds.has(part.index)) {
+      pending = { parts: [], messageIds: new Map() };
+      this.pendingParts.set(key, pending);
+    }
+    pending.parts.push(part);
+    pending.messageIds.set(part.index, messageId);
+
+    if (pending.parts.length < part.total) {
+      return;
+    }
+    this.pendingParts.delete(key);
+
+    const doc = decodeDocumentParts(pending.parts, this.codec);
+    if (doc && doc._id) {
+      const messageIds = Array.from(pending.messageIds.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, id]) => id);
+      this.receiveDocument(doc, messageIds, chatId);
+    }
+  }
+
+  /**
+   * Apply a version of a document received from another client. A version
+   * that loses against the cached one (see compareVersions) is ignored; if it
+   * was written over the cached version's messages, the winner is written
+   * back so the chat converges on it too.
+   */
+  private receiveDocument(doc: Document, messageIds: number[], chatId: string | number): void {
+    let tx: string | undefined;
+    if (doc._tx !== undefined) {
+      const { _tx, ...committed } = doc;
+      if (!this.committedTransactions.has(_tx)) {
+        const pending = this.pendingTransactions.get(_tx) ?? [];
+        pending.push({ doc: committed as Document, messageIds, chatId });
+        this.pendingTransactions.set(_tx, pending);
+        return;
+      }
+      tx = _tx;
+      doc = committed as Document;
+    }
+
+    const current = this.documentCache.get(doc._id);
+    if (!current || compareVersions(doc, current) >= 0) {
+      this.setDocumentTransaction(doc._id, tx);
+      this.cacheDocument(doc, messageIds, chatId, 'remote');
+      return;
+    }
+
+    const currentMessageIds = this.messageIndex.get(doc._id) ?? [];
+    if (
+      sameChat(chatId, this.getDocumentChat(doc._id)) &&
+      messageIds.some(messageId => currentMessageIds.includes(messageId))
+    ) {
+      this.restoreDocument(current).catch(err => console.warn('Failed to restore document:', err));
+    }
+  }
+
+  /** Apply the documents of another client's transaction once its commit marker arrives */
+  private receiveTransaction(marker: TransactionMarker): void {
+    this.committedTransactions.add(marker._id);
+    const pending = this.pendingTransactions.get(marker._id) ?? [];
+    this.pendingTransactions.delete(marker._id);
+
+    for (const { doc, messageIds, chatId } of pending) {
+      this.receiveDocument(doc, messageIds, chatId);
+    }
+    for (const id of marker.deleted) {
+      this.uncacheDocument(id, 'remote');
+    }
+  }
+
+  private async restoreDocument(doc: Document): Promise<void> {
+    const chatId = this.getDocumentChat(doc._id);
+    const messageIds = await this.rewriteDocument(doc);
+    await this.recordChange({ op: 'set', id: doc._id, messageIds, ...this.chatField(chatId), doc, at: Date.now() });
+    await this.persistIndex();
+  }
+
+  /** Commit a transaction's writes once earlier commits have finished */
+  private queueCommit(txId: string, writes: TransactionWrite[], value: any): Promise<OperationResult> {
+    const commit = this.transactionLock.then(() => this.commitTransaction(txId, writes, value));
+    this.transactionLock = commit.then(() => undefined);
+    return commit;
+  }
+
+  private getMigrationVersionsSync(): { [table: string]: number } {
+    const record = this.documentCache.get(MIGRATIONS_ID) as MigrationRecord | undefined;
+    return { ...record?.versions };
+  }
+
+  /**
+   * Take the migration lock unless another process holds one younger than
+   * `timeout`. Two processes locking at once both write the record; after a
+   * pause, only the one whose lock the chat kept goes ahead. Returns the lock
+   * owner id, or the failure to report.
+   */
+  private async lockMigrations(timeout: number): Promise<string | OperationResult> {
+    const current = await this.readMigrationRecord();
+    if (current?.lock && current.lock.at + timeout > Date.now()) {
+      return this.lockedResult(current.lock);
+    }
+
+    const owner = generateId();
+    await this.writeMigrationRecord({
+      _id: MIGRATIONS_ID,
+      _table: '__SYSTEM__',
+      versions: {},
+      ...current,
+      lock: { owner, at: Date.now() },
+    });
+
+    await this.sleep(MIGRATION_LOCK_SETTLE);
+    const stored = await this.readMigrationRecord();
+    if (stored?.lock?.owner !== owner) {
+      return this.lockedResult(stored?.lock);
+    }
+    return owner;
+  }
+
+  private async unlockMigrations(owner: string): Promise<void> {
+    const current = this.documentCache.get(MIGRATIONS_ID) as MigrationRecord | undefined;
+    if (current?.lock?.owner === owner) {
+      const { lock, ...unlocked } = current;
+      await this.writeMigrationRecord(unlocked as MigrationRecord);
+    }
+  }
+
+  /** The migration record as stored in the chat, which the cache is brought up to */
+  private async readMigrationRecord(): Promise<MigrationRecord | null> {
+    const cached = this.documentCache.get(MIGRATIONS_ID);
+    const stored = await this.readStoredDocument(MIGRATIONS_ID);
+    if (stored && !isEqual(stored, cached)) {
+      this.cacheDocument(stored, this.messageIndex.get(MIGRATIONS_ID) ?? [], this.chatId, 'remote');
+    }
+    return (stored ?? cached ?? null) as MigrationRecord | null;
+  }
+
+  private async writeMigrationRecord(record: MigrationRecord): Promise<void> {
+    const existing = this.documentCache.get(MIGRATIONS_ID);
+    const doc: Document = { ...record, _rev: (existing?._rev ?? 0) + 1 };
+    const messageIds = existing
+      ? await this.rewriteDocument(doc)
+      : await this.sendMessages(encodeDocumentParts(doc, this.prefix, this.maxMessageLength, this.codec));
+    await this.recordChange({ op: 'set', id: MIGRATIONS_ID, messageIds, doc, at: Date.now() });
+    await this.persistIndex();
+  }
+
+  private lockedResult(lock: MigrationRecord['lock']): OperationResult {
+    const since = lock ? ` since ${new Date(lock.at).toISOString()}` : '';
+    return {
+      success: false,
+      code: 'LOCKED',
+      data: { lockedAt: lock?.at ?? null },
+      message: `Migrations are being run by another process${since}`,
+    };
+  }
+
+  /** Run a sweep after `delay` ms; right away again while whole batches expire */
+  private scheduleSweep(delay: number = this.ttlSweepInterval): void {
+    if (this.ttlSweepInterval <= 0 || this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setTimeout(() => {
+      let deleted = 0;
+      this.sweeping = this.sweepBatch()
+        .then(count => {
+          deleted = count;
+        })
+        .catch(err => console.warn('Failed to delete expired documents:', err))
+        .finally(() => {
+          this.sweeping = null;
+          this.sweepTimer = null;
+          if (this.initialized) {
+            this.scheduleSweep(deleted === this.ttlSweepBatchSize ? 0 : this.ttlSweepInterval);
+          }
+        });
+    }, delay);
+    this.sweepTimer.unref?.();
+  }
+
+  /** Delete up to `ttlSweepBatchSize` expired documents; returns how many */
+  private async sweepBatch(): Promise<number> {
+    const now = Date.now();
+    const ids: string[] = [];
+    for (const doc of this.documentCache.values()) {
+      if (ids.length === this.ttlSweepBatchSize) break;
+      if (isExpired(doc, now)) {
+        ids.push(doc._id);
+      }
+    }
+
+    this.batchDepth++;
+    let deleted: number;
+    try {
+      deleted = await this.deleteExpired(ids);
+      await this.pruneHistories(now);
+    } finally {
+      this.batchDepth--;
+    }
+    await this.persistIndex();
+    return deleted;
+  }
+
+  /** Delete the documents among `ids` that have expired; returns how many */
+  private async deleteExpired(ids: Iterable<string>): Promise<number> {
+    let deleted = 0;
+    for (const id of ids) {
+      const doc = this.documentCache.get(id);
+      if (!doc || !isExpired(doc)) continue;
+
+      await this.deleteMessages(this.messageIndex.get(id) ?? [], this.getDocumentChat(id));
+      // Updated meanwhile, e.g. by another client extending the expiry
+      if (this.documentCache.get(id) !== doc) continue;
+      await this.recordChange({ op: 'delete', id, at: Date.now() });
+      deleted++;
+    }
+    return deleted;
+  }
+
+  /** The checks behind `verify()` */
+  private async inspect(options: VerifyOptions): Promise<VerifyReport> {
+    const report: VerifyReport = {
+      checkedCount: 0,
+      missing: [],
+      mismatched: [],
+      unindexed: [],
+      indexPinned: true,
+      scannedCount: 0,
+      duplicates: [],
+      orphaned: [],
+      staleIndexMessages: [],
+    };
+
+    for (const [id, cached] of Array.from(this.documentCache.entries())) {
+      report.checkedCount++;
+      if ((this.messageIndex.get(id) ?? []).length === 0) {
+        report.unindexed.push(id);
+        continue;
+      }
+      // The cache may hold `undefined` fields, which the stored JSON drops
+      const stored = await this.readStoredDocument(id);
+      if (!stored) {
+        report.missing.push(id);
+      } else if (!isEqual(stored, JSON.parse(JSON.stringify(cached)))) {
+        report.mismatched.push(id);
+      }
+    }
+
+    const chat = await this.transport.getChat(this.chatId);
+    report.indexPinned = this.indexMessageId === null
+      ? !chat.pinned_message?.text?.startsWith(`${this.prefix}INDEX:`)
+      : chat.pinned_message?.message_id === this.indexMessageId;
+
+    if (options.scan) {
+      const chats = [...this.router.getChats(), ...this.documentChats.values()]
+        .filter((chatId, i, all) => all.findIndex(other => sameChat(other, chatId)) === i);
+      for (const chatId of chats) {
+        await this.scanChat(chatId, options.scanFrom, report);
+      }
+    }
+
+    return report;
+  }
+
+  private countProblems(report: VerifyReport): number {
+    return report.missing.length + report.mismatched.length + report.unindexed.length +
+      (report.indexPinned ? 0 : 1) + report.duplicates.length + report.orphaned.length +
+      report.staleIndexMessages.length;
+  }
+
+  /**
+   * Read the messages of a chat the index doesn't reference, between
+   * `from` (default: the lowest id it does) and the highest id it does.
+   */
+  private async scanChat(chatId: string | number, from: number | undefined, report: VerifyReport): Promise<void> {
+    const known = new Set<number>();
+    for (const [id, messageIds] of this.messageIndex) {
+      if (sameChat(this.getDocumentChat(id), chatId)) {
+        messageIds.forEach(messageId => known.add(messageId));
+      }
+    }
+    if (this.router.isPrimary(chatId)) {
+      if (this.indexMessageId !== null) {
+        known.add(this.indexMessageId);
+      }
+      this.indexPages.forEach(page => page.messageIds.forEach(messageId => known.add(messageId)));
+    }
+    if (known.size === 0) {
+      return;
+    }
+
+    const ids = Array.from(known);
+    const first = from ?? Math.min(...ids);
+    const last = Math.max(...ids);
+    // Parts of a document copy, until its last part is read
+    const parts = new Map<string, number[]>();
+    const addStray = (messageIds: number[], documentId?: string) => {
+      const stray: StrayMessages = { chatId, messageIds, ...(documentId !== undefined ? { documentId } : {}) };
+      if (documentId !== undefined && this.messageIndex.has(documentId)) {
+        report.duplicates.push(stray);
+      } else {
+        report.orphaned.push(stray);
+      }
+    };
+
+    for (let messageId = first; messageId <= last; messageId++) {
+      if (known.has(messageId)) continue;
+      const message = await this.transport.getMessage(chatId, messageId);
+      report.scannedCount++;
+      const text = message?.text;
+      if (!text?.startsWith(this.prefix) || text.startsWith(`${this.prefix}TX:`)) continue;
+
+      if (text.startsWith(`${this.prefix}INDEX:`)) {
+        report.staleIndexMessages.push({ chatId, messageIds: [messageId] });
+      } else if (text.startsWith(`${this.prefix}PART:`)) {
+        const part = decodePart(text, `${this.prefix}PART:`);
+        if (!part) {
+          addStray([messageId]);
+          continue;
+        }
+        const messageIds = [...(parts.get(part.id) ?? []), messageId];
+        if (part.index === part.total) {
+          parts.delete(part.id);
+          addStray(messageIds, part.id);
+        } else {
+          parts.set(part.id, messageIds);
+        }
+      } else {
+        let doc: Document | null = null;
+        try {
+          doc = decodeDocument(text, this.prefix, this.codec);
+        } catch {
+          // Written with another key or codec
+        }
+        addStray([messageId], typeof doc?._id === 'string' ? doc._id : undefined);
+      }
+    }
+
+    // Copies whose last part is gone
+    for (const [documentId, messageIds] of parts) {
+      addStray(messageIds, documentId);
+    }
   }
 
   /** Ensure database is initialized */
@@ -530,25 +3477,28 @@ export class TelegramDB {
     }
   }
 
-  /** Retry operation with exponential backoff */
-  private async retryOperation<T>(
-    operation: () => Promise<T>,
-    maxRetries: number
-  ): Promise<T> {
-    let lastError: Error;
-
-    for (let i = 0; i < maxRetries; i++) {
-      try {
-        return await operation();
-      } catch (error: any) {
-        lastError = error;
-        if (i < maxRetries - 1) {
-          await this.sleep(1000 * (i + 1));
-        }
-      }
+  private async acquireIndexFileLock(): Promise<void> {
+    if (!this.lockIndexFile || this.indexFileLocked) {
+      return;
+    }
+    const dir = dirname(this.indexFilePath);
+    if (dir !== '.' && !existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
     }
+    await lockIndexFile(this.indexFilePath);
+    this.indexFileLocked = true;
+  }
 
-    throw lastError!;
+  private async releaseIndexFileLock(): Promise<void> {
+    if (!this.indexFileLocked) {
+      return;
+    }
+    this.indexFileLocked = false;
+    try {
+      await unlockIndexFile(this.indexFilePath);
+    } catch (err) {
+      console.warn('Failed to unlock index file:', err);
+    }
   }
 
   private sleep(ms: number): Promise<void> {
@@ -557,7 +3507,16 @@ export class TelegramDB {
 
   /** Close database connection */
   async close(): Promise<void> {
-    this.bot.stop();
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await this.sweeping;
+    await this.transactionLock;
+    await this.flush();
+    Array.from(this.changeStreams).forEach(stream => stream.close());
+    this.transport.stop();
+    await this.releaseIndexFileLock();
     this.initialized = false;
   }
 }
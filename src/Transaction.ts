@@ -0,0 +1,213 @@
+import {
+  Document,
+  QueryFilter,
+  FindOptions,
+  UpdateSpec,
+  UpdateOptions,
+  OperationResult,
+  RevisionConflict,
+} from './types';
+import { matchesFilter, applyFindOptions } from './utils';
+import { isOperatorUpdate, createUpsertDocument } from './updateOperators';
+
+/** What a transaction needs from the database it runs against */
+export interface TransactionContext {
+  /** Committed version of a document */
+  getDocument(id: string): Document | undefined;
+  /** Committed documents of a table, in insertion order */
+  getTableDocuments(table: string): Document[];
+  prepareInsert(doc: Partial<Document>, table: string, exists: (id: string) => boolean): Document | OperationResult;
+  prepareUpdate(
+    documents: Document[],
+    update: UpdateSpec,
+    table: string,
+    options: UpdateOptions
+  ): Document[] | OperationResult;
+  conflictResult(conflict: RevisionConflict): OperationResult;
+}
+
+/** A document the transaction writes (`doc`) or deletes (`doc: null`) */
+export interface TransactionWrite {
+  id: string;
+  table: string;
+  /** Committed version when the transaction first touched it; null for inserts */
+  original: Document | null;
+  doc: Document | null;
+}
+
+/**
+ * Thrown by transaction operations that fail, e.g. on a schema violation or
+ * a duplicate `_id`. Unless caught, it rolls the transaction back and
+ * `result` is what `transaction()` returns.
+ */
+export class TransactionError extends Error {
+  constructor(readonly result: OperationResult) {
+    super(result.message);
+    this.name = 'TransactionError';
+  }
+}
+
+/**
+ * Changes staged inside `db.transaction()`. Nothing is written to the chat
+ * until the callback returns; reads see the committed documents with the
+ * staged changes applied.
+ */
+export class Transaction {
+  private writes: Map<string, TransactionWrite> = new Map();
+  private closed: boolean = false;
+
+  constructor(
+    readonly id: string,
+    private context: TransactionContext
+  ) {}
+
+  async insert(doc: Partial<Document>, table: string): Promise<Document> {
+    this.assertOpen();
+
+    const document = this.context.prepareInsert(doc, table, id => this.getDocument(id) !== undefined);
+    if (!('_id' in document)) {
+      throw new TransactionError(document);
+    }
+
+    // Re-inserting a document deleted earlier in the transaction replaces it
+    const original = this.writes.get(document._id)?.original;
+    if (original) {
+      document._rev = (original._rev ?? 0) + 1;
+    }
+
+    this.stage(document._id, table, document);
+    return document;
+  }
+
+  async insertMany(docs: Partial<Document>[], table: string): Promise<Document[]> {
+    const inserted: Document[] = [];
+    for (const doc of docs) {
+      inserted.push(await this.insert(doc, table));
+    }
+    return inserted;
+  }
+
+  async find(filter: QueryFilter = {}, table: string, options?: FindOptions): Promise<Document[]> {
+    this.assertOpen();
+
+    const queryWithTable = { ...filter, _table: table };
+    const documents = this.getTableDocuments(table).filter(doc => matchesFilter(doc, queryWithTable));
+    return options ? applyFindOptions(documents, options) : documents;
+  }
+
+  async findOne(filter: QueryFilter = {}, table: string, options?: FindOptions): Promise<Document | null> {
+    const results = await this.find(filter, table, { ...options, limit: 1 });
+    return results.length > 0 ? results[0] : null;
+  }
+
+  async findById(id: string, table: string): Promise<Document | null> {
+    return this.findOne({ _id: id }, table);
+  }
+
+  /** Stage an update; returns the new versions of the matched documents */
+  async update(
+    filter: QueryFilter,
+    update: UpdateSpec,
+    table: string,
+    options: UpdateOptions = {}
+  ): Promise<Document[]> {
+    if (isOperatorUpdate(update) && options.replace) {
+      throw new Error('Update operators cannot be combined with replace');
+    }
+
+    const documents = await this.find(filter, table);
+
+    if (documents.length === 0 && options.upsert) {
+      return [await this.insert(createUpsertDocument(filter, update), table)];
+    }
+
+    if (options.ifRev !== undefined) {
+      for (const doc of documents) {
+        const conflict = this.compareRevision(doc, options.ifRev);
+        if (conflict) {
+          throw new TransactionError(this.context.conflictResult(conflict));
+        }
+      }
+    }
+
+    const changes = this.context.prepareUpdate(documents, update, table, options);
+    if (!Array.isArray(changes)) {
+      throw new TransactionError(changes);
+    }
+
+    for (const changed of changes) {
+      this.stage(changed._id, table, changed);
+    }
+    return changes;
+  }
+
+  async updateById(id: string, update: UpdateSpec, table: string, options: UpdateOptions = {}): Promise<Document[]> {
+    return this.update({ _id: id }, update, table, options);
+  }
+
+  /** Stage a delete; returns the number of matched documents */
+  async delete(filter: QueryFilter, table: string): Promise<number> {
+    const documents = await this.find(filter, table);
+    for (const doc of documents) {
+      this.stage(doc._id, table, null);
+    }
+    return documents.length;
+  }
+
+  async deleteById(id: string, table: string): Promise<number> {
+    return this.delete({ _id: id }, table);
+  }
+
+  /** Staged changes, in the order documents were first touched */
+  getWrites(): TransactionWrite[] {
+    return Array.from(this.writes.values()).filter(write => write.original !== null || write.doc !== null);
+  }
+
+  /** Called once the callback has returned; later operations throw */
+  close(): void {
+    this.closed = true;
+  }
+
+  private stage(id: string, table: string, doc: Document | null): void {
+    const write = this.writes.get(id);
+    if (write) {
+      write.doc = doc;
+    } else {
+      this.writes.set(id, { id, table, original: this.context.getDocument(id) ?? null, doc });
+    }
+  }
+
+  private getDocument(id: string): Document | undefined {
+    const write = this.writes.get(id);
+    return write ? write.doc ?? undefined : this.context.getDocument(id);
+  }
+
+  private getTableDocuments(table: string): Document[] {
+    const documents: Document[] = [];
+    for (const doc of this.context.getTableDocuments(table)) {
+      const write = this.writes.get(doc._id);
+      if (!write) {
+        documents.push(doc);
+      } else if (write.doc) {
+        documents.push(write.doc);
+      }
+    }
+    for (const write of this.writes.values()) {
+      if (write.original === null && write.doc && write.table === table) {
+        documents.push(write.doc);
+      }
+    }
+    return documents;
+  }
+
+  private compareRevision(doc: Document, ifRev: number): RevisionConflict | null {
+    const actualRev = doc._rev ?? 0;
+    return actualRev === ifRev ? null : { documentId: doc._id, expectedRev: ifRev, actualRev };
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error(`Transaction ${this.id} has already ended`);
+    }
+  }
+}
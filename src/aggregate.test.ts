@@ -0,0 +1,68 @@
+import { describe, expect, it } from '@jest/globals';
+import { runPipeline } from './aggregate';
+import { Document } from './types';
+
+const orders: Document[] = [
+  { _id: 'o1', _table: 'orders', customer: 'c1', item: 'book', price: 10, qty: 2, tags: ['gift', 'paper'] },
+  { _id: 'o2', _table: 'orders', customer: 'c2', item: 'pen', price: 2, qty: 10, tags: [] },
+  { _id: 'o3', _table: 'orders', customer: 'c1', item: 'pen', price: 2, qty: 1 },
+];
+const customers: Document[] = [
+  { _id: 'c1', _table: 'customers', name: 'Ann' },
+  { _id: 'c2', _table: 'customers', name: 'Bob' },
+];
+
+const run = (pipeline: any[]) => runPipeline(orders, pipeline, table => table === 'customers' ? customers : []);
+
+describe('runPipeline', () => {
+  it('filters, groups and sorts', () => {
+    expect(run([
+      { $match: { price: { $gte: 2 } } },
+      { $group: { _id: '$customer', total: { $sum: '$qty' }, items: { $push: '$item' }, orders: { $count: {} } } },
+      { $sort: { total: -1 } },
+    ])).toEqual([
+      { _id: 'c2', total: 10, items: ['pen'], orders: 1 },
+      { _id: 'c1', total: 3, items: ['book', 'pen'], orders: 2 },
+    ]);
+  });
+
+  it('computes the other accumulators, grouping everything under a null _id', () => {
+    expect(run([{
+      $group: {
+        _id: null,
+        average: { $avg: '$price' },
+        cheapest: { $min: '$price' },
+        dearest: { $max: '$item' },
+        first: { $first: '$_id' },
+        last: { $last: '$_id' },
+      },
+    }])).toEqual([{ _id: null, average: 14 / 3, cheapest: 2, dearest: 'pen', first: 'o1', last: 'o3' }]);
+  });
+
+  it('projects computed fields, unwinds arrays and joins other tables', () => {
+    expect(run([
+      { $unwind: '$tags' },
+      { $project: { _id: 0, tag: '$tags', order: '$_id' } },
+    ])).toEqual([{ tag: 'gift', order: 'o1' }, { tag: 'paper', order: 'o1' }]);
+
+    expect(run([{ $unwind: { path: '$tags', preserveNullAndEmptyArrays: true } }])).toHaveLength(4);
+
+    const [joined] = run([
+      { $lookup: { from: 'customers', localField: 'customer', foreignField: '_id', as: 'buyer' } },
+      { $skip: 1 },
+      { $limit: 1 },
+    ]);
+    expect(joined).toMatchObject({ _id: 'o2', buyer: [{ name: 'Bob' }] });
+    expect(orders[1]).not.toHaveProperty('buyer');
+  });
+
+  it('rejects malformed stages', () => {
+    expect(() => run([{ $match: {}, $sort: {} }])).toThrow('exactly one operator');
+    expect(() => run([{ $out: 'x' }])).toThrow('Unknown pipeline stage: $out');
+    expect(() => run([{ $group: { total: { $sum: 1 } } }])).toThrow('$group requires an _id expression');
+    expect(() => run([{ $group: { _id: null, total: { $median: '$qty' } } }])).toThrow('Unknown $group accumulator: $median');
+    expect(() => run([{ $limit: -1 }])).toThrow('$limit requires a non-negative integer');
+    expect(() => run([{ $unwind: 'tags' }])).toThrow('$unwind requires a field path');
+    expect(() => run([{ $lookup: { from: 'customers' } }])).toThrow('$lookup requires');
+  });
+});
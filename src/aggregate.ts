@@ -0,0 +1,241 @@
+import { Document, PipelineStage } from './types';
+import {
+  matchesFilter,
+  sortDocuments,
+  projectDocument,
+  getNestedValue,
+  compareValues,
+} from './utils';
+
+/** Looks up the documents of another table for $lookup */
+export type TableResolver = (table: string) => Document[];
+
+/**
+ * Run an aggregation pipeline over documents. Input documents are never
+ * mutated; every stage that reshapes documents returns copies.
+ */
+export function runPipeline(
+  docs: Document[],
+  pipeline: PipelineStage[],
+  resolveTable: TableResolver
+): any[] {
+  let results: any[] = docs;
+
+  for (const stage of pipeline) {
+    const keys = Object.keys(stage);
+    if (keys.length !== 1) {
+      throw new Error(`Pipeline stage must have exactly one operator, got: ${keys.join(', ') || 'none'}`);
+    }
+
+    const value = (stage as any)[keys[0]];
+    switch (keys[0]) {
+      case '$match':
+        results = results.filter(doc => matchesFilter(doc, value));
+        break;
+      case '$group':
+        results = groupStage(results, value);
+        break;
+      case '$sort':
+        results = sortDocuments(results, value);
+        break;
+      case '$skip':
+        results = results.slice(requireCount('$skip', value));
+        break;
+      case '$limit':
+        results = results.slice(0, requireCount('$limit', value));
+        break;
+      case '$project':
+        results = results.map(doc => projectStage(doc, value));
+        break;
+      case '$unwind':
+        results = unwindStage(results, value);
+        break;
+      case '$lookup':
+        results = lookupStage(results, value, resolveTable);
+        break;
+      default:
+        throw new Error(`Unknown pipeline stage: ${keys[0]}`);
+    }
+  }
+
+  return results;
+}
+
+/** `'$path'` references a field of the document; anything else is a literal */
+function evaluate(expression: any, doc: any): any {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return getNestedValue(doc, expression.substring(1));
+  }
+  if (typeof expression === 'object' && expression !== null && !Array.isArray(expression)) {
+    const result: any = {};
+    for (const [key, value] of Object.entries(expression)) {
+      result[key] = evaluate(value, doc);
+    }
+    return result;
+  }
+  return expression;
+}
+
+function requireCount(stage: string, value: any): number {
+  if (typeof value !== 'number' || value < 0 || !Number.isInteger(value)) {
+    throw new Error(`${stage} requires a non-negative integer`);
+  }
+  return value;
+}
+
+function groupStage(docs: any[], spec: { _id: any; [field: string]: any }): any[] {
+  if (!('_id' in spec)) {
+    throw new Error('$group requires an _id expression');
+  }
+
+  const accumulators = Object.entries(spec).filter(([field]) => field !== '_id');
+  for (const [field, accumulator] of accumulators) {
+    const ops = typeof accumulator === 'object' && accumulator !== null ? Object.keys(accumulator) : [];
+    if (ops.length !== 1) {
+      throw new Error(`$group field ${field} must be a single accumulator like { $sum: '$price' }`);
+    }
+  }
+
+  const groups = new Map<string, { key: any; docs: any[] }>();
+  for (const doc of docs) {
+    const key = evaluate(spec._id, doc) ?? null;
+    const id = JSON.stringify(key);
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, docs: [] };
+      groups.set(id, group);
+    }
+    group.docs.push(doc);
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const result: any = { _id: group.key };
+    for (const [field, accumulator] of accumulators) {
+      const [op, expression] = Object.entries(accumulator)[0];
+      result[field] = accumulate(op, expression, group.docs);
+    }
+    return result;
+  });
+}
+
+function accumulate(op: string, expression: any, docs: any[]): any {
+  const values = () => docs.map(doc => evaluate(expression, doc));
+  const numbers = () => values().filter((value): value is number => typeof value === 'number');
+  const present = () => values().filter(value => value !== undefined && value !== null);
+
+  switch (op) {
+    case '$sum':
+      return numbers().reduce((sum, value) => sum + value, 0);
+    case '$avg': {
+      const list = numbers();
+      return list.length > 0 ? list.reduce((sum, value) => sum + value, 0) / list.length : null;
+    }
+    case '$min': {
+      const list = present();
+      return list.length > 0 ? list.reduce((min, value) => compareValues(value, min) < 0 ? value : min) : null;
+    }
+    case '$max': {
+      const list = present();
+      return list.length > 0 ? list.reduce((max, value) => compareValues(value, max) > 0 ? value : max) : null;
+    }
+    case '$push':
+      return values().filter(value => value !== undefined);
+    case '$count':
+      return docs.length;
+    case '$first':
+      return docs.length > 0 ? evaluate(expression, docs[0]) : null;
+    case '$last':
+      return docs.length > 0 ? evaluate(expression, docs[docs.length - 1]) : null;
+    default:
+      throw new Error(`Unknown $group accumulator: ${op}`);
+  }
+}
+
+/** Plain 1/0 projections behave like find's projection; expressions add computed fields */
+function projectStage(doc: any, spec: { [field: string]: any }): any {
+  const isFlag = (value: any) => value === 0 || value === 1 || typeof value === 'boolean';
+  const entries = Object.entries(spec);
+
+  if (entries.every(([, value]) => isFlag(value))) {
+    return projectDocument(doc, spec);
+  }
+
+  const result: any = {};
+  if (!(spec._id === 0 || spec._id === false)) {
+    result._id = doc._id;
+  }
+  for (const [field, value] of entries) {
+    if (field === '_id' && isFlag(value)) continue;
+    if (isFlag(value)) {
+      if (!value) {
+        throw new Error('$project cannot exclude fields when computing new ones');
+      }
+      const fieldValue = getNestedValue(doc, field);
+      if (fieldValue !== undefined) {
+        result[field] = fieldValue;
+      }
+    } else {
+      result[field] = evaluate(value, doc);
+    }
+  }
+  return result;
+}
+
+function unwindStage(
+  docs: any[],
+  spec: string | { path: string; preserveNullAndEmptyArrays?: boolean }
+): any[] {
+  const path = typeof spec === 'string' ? spec : spec?.path;
+  const preserve = typeof spec === 'object' && !!spec.preserveNullAndEmptyArrays;
+  if (typeof path !== 'string' || !path.startsWith('$')) {
+    throw new Error("$unwind requires a field path like '$tags'");
+  }
+
+  const field = path.substring(1);
+  const results: any[] = [];
+  for (const doc of docs) {
+    const value = getNestedValue(doc, field);
+    if (Array.isArray(value) && value.length > 0) {
+      for (const item of value) {
+        results.push(withField(doc, field, item));
+      }
+    } else if (value !== undefined && value !== null && !Array.isArray(value)) {
+      results.push(doc);
+    } else if (preserve) {
+      results.push(doc);
+    }
+  }
+  return results;
+}
+
+function lookupStage(
+  docs: any[],
+  spec: { from: string; localField: string; foreignField: string; as: string },
+  resolveTable: TableResolver
+): any[] {
+  if (!spec || !spec.from || !spec.localField || !spec.foreignField || !spec.as) {
+    throw new Error('$lookup requires from, localField, foreignField and as');
+  }
+
+  const foreignDocs = resolveTable(spec.from);
+  return docs.map(doc => {
+    const localValue = getNestedValue(doc, spec.localField);
+    const matches = foreignDocs.filter(foreign =>
+      matchesFilter(foreign, { [spec.foreignField]: Array.isArray(localValue) ? { $in: localValue } : localValue })
+    );
+    return withField(doc, spec.as, matches);
+  });
+}
+
+/** Copy of a document with one (possibly dotted) field replaced */
+function withField(doc: any, path: string, value: any): any {
+  const result = { ...doc };
+  const keys = path.split('.');
+  let current = result;
+  for (const key of keys.slice(0, -1)) {
+    current[key] = typeof current[key] === 'object' && current[key] !== null ? { ...current[key] } : {};
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+  return result;
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough, Readable } from 'stream';
+import { runCli } from './cli';
+import { MemoryTransport } from './MemoryTransport';
+import { TelegramDB } from './TelegramDB';
+
+describe('tg-db', () => {
+  let dir: string;
+  let transport: MemoryTransport;
+
+  /** Run the command against the in-memory chat; resolves to its exit code and output */
+  async function run(argv: string[], stdin: string = '') {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    let out = '';
+    let err = '';
+    stdout.on('data', chunk => { out += chunk; });
+    stderr.on('data', chunk => { err += chunk; });
+
+    const code = await runCli(
+      argv,
+      {
+        stdin: Readable.from([stdin]),
+        stdout,
+        stderr,
+        env: { TG_DB_BOT_TOKEN: 'token', TG_DB_CHAT_ID: '-100123', TG_DB_INDEX_FILE: join(dir, 'index.json') },
+      },
+      config => new TelegramDB({ ...config, transport, batchDelay: 0, rateLimit: { perChat: 1000, global: 1000 } })
+    );
+    return { code, out, err };
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tg-db-cli-'));
+    transport = new MemoryTransport();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('inserts documents from stdin and finds them as JSON', async () => {
+    const inserted = await run(['insert', 'users', '-'], '[{"_id":"a","age":30},{"_id":"b","age":12}]');
+    expect(inserted).toMatchObject({ code: 0, err: 'Inserted 2 document(s), failed 0\n' });
+
+    const found = await run(['find', 'users', '{"age":{"$gte":18}}', '--output', 'json']);
+
+    expect(found.code).toBe(0);
+    expect(JSON.parse(found.out)).toMatchObject([{ _id: 'a', age: 30 }]);
+  });
+
+  it('prints aligned columns by default', async () => {
+    await run(['insert', 'users', '{"_id":"a","name":"Ann"}']);
+
+    const found = await run(['find', 'users']);
+
+    expect(found.out.split('\n')[0]).toMatch(/^_id\s+name\s+_table\s+_rev/);
+  });
+
+  it('reports the insert an upsert would make in a dry run, without writing', async () => {
+    const preview = await run(['update', 'users', '{"name":"Ann"}', '{"$set":{"age":30}}', '--upsert', '--dry-run', '--output', 'json']);
+
+    expect(preview.code).toBe(0);
+    expect(preview.err).toBe('Dry run: nothing matches; would insert 1 document\n');
+    expect(JSON.parse(preview.out)).toEqual([{ name: 'Ann', age: 30 }]);
+    expect((await run(['count', 'users'])).out).toBe('0\n');
+  });
+
+  it('deletes nothing in a dry run', async () => {
+    await run(['insert', 'users', '{"_id":"a"}']);
+
+    const preview = await run(['delete', 'users', '{}', '--dry-run']);
+
+    expect(preview.err).toBe('Dry run: would delete 1 document(s)\n');
+    expect((await run(['count', 'users'])).out).toBe('1\n');
+  });
+
+  it('exits with 2 and the usage for bad arguments', async () => {
+    const unknown = await run(['frobnicate']);
+    expect(unknown.code).toBe(2);
+    expect(unknown.err).toContain('Unknown command: frobnicate');
+    expect(unknown.err).toContain('Usage: tg-db');
+
+    expect((await run(['find'])).code).toBe(2);
+    expect((await run(['find', 'users', '{oops'])).err).toContain('Invalid JSON in filter');
+    expect((await run(['tables', '--output', 'xml'])).code).toBe(2);
+  });
+
+  it('exits with 1 when the operation fails', async () => {
+    const result = await run(['update', 'users', '{"name":"Nobody"}', '{"age":1}']);
+
+    expect(result.code).toBe(1);
+    expect(result.err).toBe('No documents found to update\n');
+  });
+});
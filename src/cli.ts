@@ -0,0 +1,430 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'fs';
+import { Readable, Writable } from 'stream';
+import { TelegramDB } from './TelegramDB';
+import { readDump, inferDumpFormat } from './dump';
+import { createUpsertDocument } from './updateOperators';
+import { DumpFormat, FindOptions, ImportOptions, OperationResult, RepairOptions, TelegramDBConfig, VerifyOptions } from './types';
+
+const DEFAULT_CONFIG_PATH = 'tg-db.config.json';
+
+const BOOLEAN_FLAGS = ['dry-run', 'upsert', 'replace', 'scan', 'help'];
+
+const USAGE = `Usage: tg-db <command> [arguments] [options]
+
+Commands:
+  tables                              List tables
+  find <table> [filter]               Find documents (--sort, --limit, --skip)
+  count <table> [filter]              Count documents
+  insert <table> <document|array|->   Insert one or more documents
+  update <table> <filter> <update>    Update documents (--upsert, --replace)
+  delete <table> <filter>             Delete documents; '{}' deletes all
+  stats [table]                       Document and message counts
+  export <file|->                     Export documents (--tables, --format)
+  import <file|->                     Import documents (--format, --table, --ids, --on-conflict)
+  rebuild-index                       Rebuild the local index from the chat
+  rebalance                           Move documents to the chats they are routed to
+  verify                              Check every document against its messages (--scan, --scan-from)
+  repair                              Fix what verify finds (--missing, --mismatched, --orphaned, --stray)
+
+Filters, documents and updates are JSON; '-' reads them from stdin.
+
+Options:
+  --token <token>       Bot token (env TG_DB_BOT_TOKEN)
+  --chat <id[,id...]>   Chat id, or comma-separated shard chats (env TG_DB_CHAT_ID)
+  --index-file <path>   Local index file (env TG_DB_INDEX_FILE)
+  --config <path>       JSON file with TelegramDB options (env TG_DB_CONFIG, default ./${DEFAULT_CONFIG_PATH})
+  --output <format>     'table' (default) or 'json'
+  --dry-run             Show what update, delete, import, rebuild-index, rebalance or repair
+                        would change without writing
+  --help                Show this help
+`;
+
+/** Bad arguments or configuration; reported with the usage text */
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Run a command; resolves to the process exit code. `createDb` opens the
+ * database from the loaded config, e.g. with another transport in tests.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr, env: process.env },
+  createDb: (config: TelegramDBConfig) => TelegramDB = config => new TelegramDB(config)
+): Promise<number> {
+  let db: TelegramDB | null = null;
+
+  try {
+    const args = parseArgs(argv);
+    const [command, ...params] = args.positional;
+    if (!command || args.flags.has('help')) {
+      io.stdout.write(USAGE);
+      return command || args.flags.has('help') ? 0 : 2;
+    }
+
+    const output = getFlag(args, 'output') ?? 'table';
+    if (output !== 'table' && output !== 'json') {
+      throw new UsageError(`Unknown output format: ${output}`);
+    }
+
+    db = createDb(loadConfig(args, io.env));
+    const result = await runCommand(db, command, params, args, io);
+
+    if (isOperationResult(result)) {
+      if (result.data !== undefined) {
+        io.stdout.write(formatOutput(result.data, output));
+      }
+      io.stderr.write(`${result.message ?? ''}\n`);
+      return result.success ? 0 : 1;
+    }
+    if (result !== undefined) {
+      io.stdout.write(formatOutput(result, output));
+    }
+    return 0;
+  } catch (error: any) {
+    io.stderr.write(`Error: ${error.message}\n`);
+    if (error instanceof UsageError) {
+      io.stderr.write(`\n${USAGE}`);
+      return 2;
+    }
+    return 1;
+  } finally {
+    await db?.close();
+  }
+}
+
+async function runCommand(
+  db: TelegramDB,
+  command: string,
+  params: string[],
+  args: ParsedArgs,
+  io: CliIO
+): Promise<unknown> {
+  const dryRun = args.flags.has('dry-run');
+
+  switch (command) {
+    case 'tables':
+      return db.getTables();
+
+    case 'find': {
+      const [table, filter] = requireParams(params, 1, 'find <table> [filter]');
+      const options: FindOptions = {};
+      const sort = getFlag(args, 'sort');
+      if (sort) options.sort = parseJson(sort, '--sort');
+      const limit = getFlag(args, 'limit');
+      if (limit) options.limit = parseCount(limit, '--limit');
+      const skip = getFlag(args, 'skip');
+      if (skip) options.skip = parseCount(skip, '--skip');
+      return db.find(await readJson(filter ?? '{}', 'filter', io), table, options);
+    }
+
+    case 'count': {
+      const [table, filter] = requireParams(params, 1, 'count <table> [filter]');
+      return db.count(await readJson(filter ?? '{}', 'filter', io), table);
+    }
+
+    case 'insert': {
+      const [table, input] = requireParams(params, 2, 'insert <table> <document|array|->');
+      const docs = await readJson(input, 'document', io);
+      if (!Array.isArray(docs)) {
+        return db.insert(docs, table);
+      }
+      const results = await db.insertMany(docs, table);
+      const failed = results.filter(result => !result.success);
+      return {
+        success: failed.length === 0,
+        data: results.map(result => result.success ? result.data : { error: result.message }),
+        message: `Inserted ${results.length - failed.length} document(s), failed ${failed.length}`,
+      };
+    }
+
+    case 'update': {
+      const [table, filterText, updateText] = requireParams(params, 3, 'update <table> <filter> <update>');
+      const filter = await readJson(filterText, 'filter', io);
+      const update = await readJson(updateText, 'update', io);
+      if (dryRun) {
+        const matched = await db.find(filter, table);
+        if (matched.length === 0 && args.flags.has('upsert')) {
+          const inserted = createUpsertDocument(filter, update);
+          return { success: true, data: [inserted], message: 'Dry run: nothing matches; would insert 1 document' };
+        }
+        return { success: true, data: matched, message: `Dry run: would update ${matched.length} document(s)` };
+      }
+      return db.update(filter, update, table, {
+        upsert: args.flags.has('upsert'),
+        replace: args.flags.has('replace'),
+      });
+    }
+
+    case 'delete': {
+      const [table, filterText] = requireParams(params, 2, 'delete <table> <filter>');
+      const filter = await readJson(filterText, 'filter', io);
+      if (dryRun) {
+        const matched = await db.find(filter, table);
+        return { success: true, data: matched, message: `Dry run: would delete ${matched.length} document(s)` };
+      }
+      return db.delete(filter, table);
+    }
+
+    case 'stats':
+      return db.getStats(params[0]);
+
+    case 'export': {
+      const [destination] = requireParams(params, 1, 'export <file|->');
+      const tables = getFlag(args, 'tables');
+      const result = await db.export(destination === '-' ? io.stdout : destination, {
+        tables: tables ? tables.split(',') : undefined,
+        format: getFormat(args, destination),
+      });
+      return { ...result, data: undefined };
+    }
+
+    case 'import': {
+      const [source] = requireParams(params, 1, 'import <file|->');
+      const options: ImportOptions = {
+        format: getFormat(args, source),
+        table: getFlag(args, 'table'),
+        ids: getChoice(args, 'ids', ['preserve', 'regenerate']),
+        onConflict: getChoice(args, 'on-conflict', ['error', 'skip', 'overwrite']),
+        delay: 0,
+      };
+      const input = source === '-' ? io.stdin : source;
+      if (dryRun) {
+        return previewImport(input, options);
+      }
+      return db.import(input, options);
+    }
+
+    case 'rebuild-index':
+      return db.rebuildIndex({ dryRun });
+
+    case 'verify':
+      return db.verify(getVerifyOptions(args));
+
+    case 'repair': {
+      const options: RepairOptions = {
+        ...getVerifyOptions(args),
+        missing: getChoice(args, 'missing', ['resend', 'drop']),
+        mismatched: getChoice(args, 'mismatched', ['cache', 'chat']),
+        orphaned: getChoice(args, 'orphaned', ['adopt', 'delete', 'keep']),
+        stray: getChoice(args, 'stray', ['delete', 'keep']),
+      };
+      if (dryRun) {
+        // A repair fixes exactly what verify finds
+        const found = await db.verify(options);
+        return { ...found, message: `Dry run: ${found.message}; nothing was repaired` };
+      }
+      return db.repair(options);
+    }
+
+    case 'rebalance':
+      return db.rebalance({ dryRun });
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/** Count the records of an import source per table, without writing */
+async function previewImport(source: string | Readable, options: ImportOptions): Promise<OperationResult> {
+  const tables: { [table: string]: number } = {};
+  let invalid = 0;
+  for await (const record of readDump(source, options.format ?? 'jsonl')) {
+    const table = record instanceof Error ? undefined : record._table ?? options.table;
+    if (typeof table === 'string') {
+      tables[table] = (tables[table] ?? 0) + 1;
+    } else {
+      invalid++;
+    }
+  }
+
+  const count = Object.values(tables).reduce((sum, n) => sum + n, 0);
+  return {
+    success: invalid === 0,
+    data: tables,
+    message: `Dry run: would import ${count} document(s); ${invalid} record(s) are invalid`,
+  };
+}
+
+/** Flags override the environment, which overrides the config file */
+function loadConfig(args: ParsedArgs, env: NodeJS.ProcessEnv): TelegramDBConfig {
+  const configPath = getFlag(args, 'config') ?? env.TG_DB_CONFIG
+    ?? (existsSync(DEFAULT_CONFIG_PATH) ? DEFAULT_CONFIG_PATH : undefined);
+  const file: Partial<TelegramDBConfig> = configPath
+    ? parseJson(readFileSync(configPath, 'utf-8'), configPath)
+    : {};
+
+  const botToken = getFlag(args, 'token') ?? env.TG_DB_BOT_TOKEN ?? file.botToken;
+  const chatFlag = getFlag(args, 'chat') ?? env.TG_DB_CHAT_ID;
+  const chatId = chatFlag?.includes(',') ? chatFlag.split(',').map(chat => chat.trim()) : chatFlag ?? file.chatId;
+  if (!botToken) {
+    throw new UsageError('A bot token is required (--token, TG_DB_BOT_TOKEN or botToken in the config file)');
+  }
+  if (chatId === undefined || chatId === '') {
+    throw new UsageError('A chat id is required (--chat, TG_DB_CHAT_ID or chatId in the config file)');
+  }
+
+  return {
+    ...file,
+    botToken,
+    chatId,
+    indexFilePath: getFlag(args, 'index-file') ?? env.TG_DB_INDEX_FILE ?? file.indexFilePath,
+    // Polling for updates would take them away from the application using the bot
+    listen: false,
+  };
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const args: ParsedArgs = { positional: [], flags: new Map() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      args.positional.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg.substring(2) : arg.substring(2, separator);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      args.flags.set(name, true);
+    } else if (separator !== -1) {
+      args.flags.set(name, arg.substring(separator + 1));
+    } else if (i + 1 < argv.length) {
+      args.flags.set(name, argv[++i]);
+    } else {
+      throw new UsageError(`Missing value for --${name}`);
+    }
+  }
+
+  return args;
+}
+
+function getFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getChoice<T extends string>(args: ParsedArgs, name: string, choices: T[]): T | undefined {
+  const value = getFlag(args, name);
+  if (value !== undefined && !choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+function getVerifyOptions(args: ParsedArgs): VerifyOptions {
+  const scanFrom = getFlag(args, 'scan-from');
+  return {
+    scan: args.flags.has('scan') || scanFrom !== undefined,
+    scanFrom: scanFrom !== undefined ? parseCount(scanFrom, '--scan-from') : undefined,
+  };
+}
+
+function getFormat(args: ParsedArgs, path: string): DumpFormat | undefined {
+  return getChoice(args, 'format', ['jsonl', 'json', 'csv']) ?? (path === '-' ? undefined : inferDumpFormat(path));
+}
+
+function requireParams(params: string[], count: number, usage: string): string[] {
+  if (params.length < count) {
+    throw new UsageError(`Usage: tg-db ${usage}`);
+  }
+  return params;
+}
+
+function parseCount(text: string, name: string): number {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new UsageError(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function parseJson(text: string, name: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new UsageError(`Invalid JSON in ${name}: ${error.message}`);
+  }
+}
+
+/** JSON from an argument, or from stdin when the argument is '-' */
+async function readJson(text: string, name: string, io: CliIO): Promise<any> {
+  if (text !== '-') {
+    return parseJson(text, name);
+  }
+
+  let input = '';
+  io.stdin.setEncoding('utf-8');
+  for await (const chunk of io.stdin) {
+    input += chunk;
+  }
+  return parseJson(input, name);
+}
+
+function isOperationResult(value: unknown): value is OperationResult {
+  return typeof value === 'object' && value !== null && typeof (value as OperationResult).success === 'boolean';
+}
+
+function formatOutput(value: unknown, output: 'table' | 'json'): string {
+  if (output === 'json') {
+    return `${JSON.stringify(value, null, 2)}\n`;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every(item => typeof item === 'object' && item !== null && !Array.isArray(item))) {
+      return formatTable(value);
+    }
+    return value.map(item => `${formatCell(item)}\n`).join('');
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).map(([key, item]) => `${key}: ${formatCell(item)}\n`).join('');
+  }
+  return `${formatCell(value)}\n`;
+}
+
+const MAX_CELL_WIDTH = 40;
+
+/** Aligned columns: one row per object, one column per field */
+function formatTable(rows: object[]): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const cells = rows.map(row => columns.map(column => truncate(formatCell((row as any)[column]))));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(row => row[i].length)));
+  const line = (values: string[]) => `${values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd()}\n`;
+
+  return line(columns) + line(widths.map(width => '-'.repeat(width))) + cells.map(line).join('');
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s*\n\s*/g, ' ');
+  return singleLine.length > MAX_CELL_WIDTH ? `${singleLine.substring(0, MAX_CELL_WIDTH - 1)}…` : singleLine;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
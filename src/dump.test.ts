@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { PassThrough, Readable } from 'stream';
+import { inferDumpFormat, readDump, writeDump } from './dump';
+import { Document, DumpFormat } from './types';
+
+const documents: Document[] = [
+  { _id: 'a', _table: 'users', _rev: 2, name: 'Ann, "A."', age: 30, tags: ['vip'] },
+  { _id: 'b', _table: 'users', name: 'Bob\nSmith', zip: '75001', active: false },
+  { _id: 'c', _table: 'notes', text: 'true', address: { city: 'Paris' } },
+];
+
+async function write(format: DumpFormat, docs: Document[] = documents): Promise<string> {
+  const stream = new PassThrough();
+  let text = '';
+  stream.on('data', chunk => text += chunk);
+  await writeDump(docs, format, stream);
+  return text;
+}
+
+async function read(text: string, format: DumpFormat): Promise<(Document | Error)[]> {
+  const records: (Document | Error)[] = [];
+  for await (const record of readDump(Readable.from([text]), format)) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('dump', () => {
+  it('infers the format from the file extension', () => {
+    expect(inferDumpFormat('backup.jsonl')).toBe('jsonl');
+    expect(inferDumpFormat('backup.NDJSON')).toBe('jsonl');
+    expect(inferDumpFormat('dir.v2/backup.json')).toBe('json');
+    expect(inferDumpFormat('backup.csv')).toBe('csv');
+    expect(inferDumpFormat('backup.txt')).toBeUndefined();
+  });
+
+  it('round-trips documents through every format', async () => {
+    for (const format of ['jsonl', 'json', 'csv'] as const) {
+      expect(await read(await write(format), format)).toEqual(documents);
+    }
+    expect(await read(await write('json', []), 'json')).toEqual([]);
+  });
+
+  it('writes system columns first and quotes strings that would read back as other values', async () => {
+    expect(await write('csv')).toBe([
+      '_id,_table,_rev,name,age,tags,zip,active,text,address',
+      'a,users,2,"Ann, ""A.""",30,"[""vip""]",,,,',
+      'b,users,,"Bob\nSmith",,,"""75001""",false,,',
+      'c,notes,,,,,,,"""true""","{""city"":""Paris""}"',
+      '',
+    ].join('\n'));
+  });
+
+  it('yields records that can\'t be read as errors and goes on', async () => {
+    const jsonl = await read('{"_id":"a"}\nnot json\n[1]\n{"_id":"b"}', 'jsonl');
+    expect(jsonl.map(record => record instanceof Error ? record.message : record._id))
+      .toEqual(['a', expect.stringContaining('Invalid JSON'), 'Not a document', 'b']);
+
+    const csv = await read('_id,name\na,Ann\nb\r\nc,"Carl"\r\n', 'csv');
+    expect(csv).toEqual([{ _id: 'a', name: 'Ann' }, new Error('Expected 2 columns, got 1'), { _id: 'c', name: 'Carl' }]);
+
+    await expect(read('{"_id":"a"}', 'json')).rejects.toThrow('Expected a JSON array of documents');
+  });
+});
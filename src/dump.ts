@@ -0,0 +1,225 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { once } from 'events';
+import { Document, DumpFormat } from './types';
+
+const SYSTEM_COLUMNS = ['_id', '_table', '_rev'];
+
+/** Format named by a file extension, if any */
+export function inferDumpFormat(path: string): DumpFormat | undefined {
+  const extension = path.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'jsonl':
+    case 'ndjson':
+      return 'jsonl';
+    case 'json':
+      return 'json';
+    case 'csv':
+      return 'csv';
+    default:
+      return undefined;
+  }
+}
+
+/** Write documents to a file, or to a stream that is left open */
+export async function writeDump(documents: Document[], format: DumpFormat, destination: string | Writable): Promise<void> {
+  const chunks = formatDump(documents, format);
+  if (typeof destination === 'string') {
+    await pipeline(Readable.from(chunks), createWriteStream(destination));
+    return;
+  }
+
+  for (const chunk of chunks) {
+    if (!destination.write(chunk)) {
+      await once(destination, 'drain');
+    }
+  }
+}
+
+function* formatDump(documents: Document[], format: DumpFormat): Generator<string> {
+  switch (format) {
+    case 'jsonl':
+      for (const doc of documents) {
+        yield `${JSON.stringify(doc)}\n`;
+      }
+      break;
+    case 'json':
+      yield '[';
+      for (let i = 0; i < documents.length; i++) {
+        yield `${i === 0 ? '' : ','}\n${JSON.stringify(documents[i])}`;
+      }
+      yield documents.length > 0 ? '\n]\n' : ']\n';
+      break;
+    case 'csv': {
+      const columns = getCsvColumns(documents);
+      yield `${columns.map(escapeCsvCell).join(',')}\n`;
+      for (const doc of documents) {
+        yield `${columns.map(column => escapeCsvCell(toCsvValue(doc[column]))).join(',')}\n`;
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown format: ${format}`);
+  }
+}
+
+/**
+ * Documents read from a stream, in order. A record that can't be parsed is
+ * yielded as an Error, so the caller can report it and go on.
+ */
+export async function* readDump(source: string | Readable, format: DumpFormat): AsyncGenerator<Document | Error> {
+  const input = typeof source === 'string' ? createReadStream(source) : source;
+  input.setEncoding('utf-8');
+
+  switch (format) {
+    case 'jsonl': {
+      let rest = '';
+      for await (const chunk of input) {
+        const lines = (rest + chunk).split('\n');
+        rest = lines.pop()!;
+        for (const line of lines) {
+          if (line.trim()) {
+            yield parseRecord(line);
+          }
+        }
+      }
+      if (rest.trim()) {
+        yield parseRecord(rest);
+      }
+      break;
+    }
+    case 'json': {
+      const documents = JSON.parse(await readAll(input));
+      if (!Array.isArray(documents)) {
+        throw new Error('Expected a JSON array of documents');
+      }
+      for (const doc of documents) {
+        yield isRecord(doc) ? doc : new Error('Not a document');
+      }
+      break;
+    }
+    case 'csv': {
+      const [header, ...rows] = parseCsv(await readAll(input));
+      if (!header) {
+        break;
+      }
+      for (const row of rows) {
+        if (row.length === 1 && row[0] === '') continue;
+        if (row.length !== header.length) {
+          yield new Error(`Expected ${header.length} columns, got ${row.length}`);
+          continue;
+        }
+        const doc: any = {};
+        header.forEach((column, i) => {
+          if (row[i] !== '') {
+            doc[column] = fromCsvValue(row[i]);
+          }
+        });
+        yield doc;
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown format: ${format}`);
+  }
+}
+
+/** `_id`, `_table` and `_rev` first, then every other top-level field in order of appearance */
+function getCsvColumns(documents: Document[]): string[] {
+  const columns = new Set(SYSTEM_COLUMNS);
+  for (const doc of documents) {
+    Object.keys(doc).forEach(key => columns.add(key));
+  }
+  return Array.from(columns);
+}
+
+/**
+ * Strings are written as-is unless they would read back as another JSON
+ * value (`42`, `true`, `"x"`); everything else is written as JSON.
+ */
+function toCsvValue(value: any): string {
+  if (value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string' && value !== '' && fromCsvValue(value) === value) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function fromCsvValue(cell: string): any {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return cell;
+  }
+}
+
+function escapeCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/** RFC 4180 rows; quoted cells may contain commas, quotes and line breaks */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseRecord(text: string): Document | Error {
+  try {
+    const doc = JSON.parse(text);
+    return isRecord(doc) ? doc : new Error('Not a document');
+  } catch (error: any) {
+    return new Error(`Invalid JSON: ${error.message}`);
+  }
+}
+
+function isRecord(value: any): value is Document {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function readAll(input: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of input) {
+    text += chunk;
+  }
+  return text;
+}
@@ -1,4 +1,15 @@
 export { TelegramDB } from './TelegramDB';
 export { TableHandler } from './TableHandler';
+export { Cursor } from './Cursor';
+export { ChangeStream } from './ChangeStream';
+export { Transaction, TransactionError, TransactionWrite } from './Transaction';
+export { TelegrafTransport } from './TelegrafTransport';
+export { MemoryTransport, MemoryTransportOptions, TELEGRAM_MAX_MESSAGE_LENGTH } from './MemoryTransport';
+export { RequestScheduler, isRetryableError, getRetryAfter } from './RequestScheduler';
+export { ScheduledTransport } from './ScheduledTransport';
 export * from './types';
 export * from './utils';
+export { isOperatorUpdate, applyUpdateOperators } from './updateOperators';
+export { validateDocument, applySchemaDefaults } from './schema';
+export { DocumentCipher, deriveKey } from './DocumentCipher';
+export { PayloadCodec } from './PayloadCodec';
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  decodeIndexFile,
+  encodeIndexFile,
+  lockIndexFile,
+  readIndexFile,
+  unlockIndexFile,
+  writeIndexFileAtomic,
+} from './indexFile';
+
+describe('index file', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tg-db-index-'));
+    path = join(dir, 'index.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips data and rejects a damaged body', () => {
+    const text = encodeIndexFile({ documents: { a: 1 } });
+
+    expect(decodeIndexFile(text)).toEqual({ documents: { a: 1 } });
+    expect(decodeIndexFile('{"documents":{}}')).toEqual({ documents: {} });
+    expect(() => decodeIndexFile(text.slice(0, -2))).toThrow('checksum mismatch');
+  });
+
+  it('keeps backups and falls back to them', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await writeIndexFileAtomic(path, encodeIndexFile({ version: 1 }), 2);
+    await writeIndexFileAtomic(path, encodeIndexFile({ version: 2 }), 2);
+    await writeIndexFileAtomic(path, encodeIndexFile({ version: 3 }), 2);
+
+    expect(existsSync(`${path}.3`)).toBe(false);
+    expect((await readIndexFile(path, 2))?.data).toEqual({ version: 3 });
+
+    writeFileSync(path, readFileSync(path, 'utf-8').slice(0, -3));
+    expect(await readIndexFile(path, 2)).toEqual({ data: { version: 2 }, path: `${path}.1` });
+  });
+
+  it('refuses a lock held in this process until it is released', async () => {
+    await lockIndexFile(path);
+    await expect(lockIndexFile(path)).rejects.toThrow('another instance in this process');
+
+    await unlockIndexFile(path);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+    await lockIndexFile(path);
+    await unlockIndexFile(path);
+  });
+
+  it('takes over a lock with our pid that this process never took', async () => {
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: process.pid, hostname: hostname(), at: 0 }));
+
+    await lockIndexFile(path);
+    const lock = JSON.parse(readFileSync(`${path}.lock`, 'utf-8'));
+    expect(lock.at).toBeGreaterThan(0);
+    await unlockIndexFile(path);
+  });
+
+  it('refuses a lock held by another host', async () => {
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: 1, hostname: `not-${hostname()}`, at: 0 }));
+
+    await expect(lockIndexFile(path)).rejects.toThrow('is in use by process 1');
+    await unlockIndexFile(path);
+    expect(existsSync(`${path}.lock`)).toBe(true);
+  });
+});
@@ -0,0 +1,208 @@
+import { open, readFile, rename, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { hostname } from 'os';
+import { createHash } from 'crypto';
+
+const INDEX_FILE_FORMAT = 'tg-db-index';
+/** Bumped when the layout of the body changes incompatibly */
+const INDEX_FILE_VERSION = 1;
+
+/** First line of an index file, describing the JSON body that follows it */
+interface IndexFileHeader {
+  format: typeof INDEX_FILE_FORMAT;
+  version: number;
+  /** sha256 of the body, hex */
+  checksum: string;
+}
+
+interface IndexFileLock {
+  pid: number;
+  hostname: string;
+  at: number;
+}
+
+let tempFileCount = 0;
+/** Lock files taken by this process; a lock with our pid that isn't here was left by an earlier process */
+const heldLocks: Set<string> = new Set();
+
+/** Contents of an index file: a header line with the checksum of the JSON body */
+export function encodeIndexFile(data: object): string {
+  const body = JSON.stringify(data);
+  const header: IndexFileHeader = { format: INDEX_FILE_FORMAT, version: INDEX_FILE_VERSION, checksum: sha256(body) };
+  return `${JSON.stringify(header)}\n${body}`;
+}
+
+/** Parse an index file, throwing if it is truncated or corrupt. Files without a header are read as plain JSON. */
+export function decodeIndexFile<T>(text: string): T {
+  const newline = text.indexOf('\n');
+  const firstLine = newline === -1 ? text : text.slice(0, newline);
+  let header: Partial<IndexFileHeader> | null = null;
+  try {
+    header = JSON.parse(firstLine);
+  } catch {
+    // No header, or a torn one
+  }
+
+  if (header?.format !== INDEX_FILE_FORMAT) {
+    if (!text.startsWith('{"') || newline !== -1) {
+      throw new Error('Not an index file, or its header is damaged');
+    }
+    return JSON.parse(text);
+  }
+  if (typeof header.version !== 'number' || header.version > INDEX_FILE_VERSION) {
+    throw new Error(`Index file version ${header.version} is newer than this version of tg-db supports`);
+  }
+
+  const body = newline === -1 ? '' : text.slice(newline + 1);
+  if (sha256(body) !== header.checksum) {
+    throw new Error('Index file checksum mismatch; it is truncated or corrupt');
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * Replace `path` without ever leaving a partly written file there: the data
+ * goes to a temporary file that is synced and renamed over it. The previous
+ * file becomes `path.1`, shifting older copies up to `path.<backups>`.
+ */
+export async function writeIndexFileAtomic(path: string, text: string, backups: number): Promise<void> {
+  const tempPath = `${path}.${process.pid}-${++tempFileCount}.tmp`;
+  const handle = await open(tempPath, 'w');
+  try {
+    await handle.writeFile(text, 'utf-8');
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+  await handle.close();
+
+  if (backups > 0 && existsSync(path)) {
+    for (let i = backups - 1; i >= 1; i--) {
+      if (existsSync(`${path}.${i}`)) {
+        await rename(`${path}.${i}`, `${path}.${i + 1}`);
+      }
+    }
+    await rename(path, `${path}.1`);
+  }
+  await rename(tempPath, path);
+  await syncDirectory(dirname(path));
+}
+
+/**
+ * Read the newest intact copy of an index file: the file itself, then its
+ * backups. Null if there is none at all; throws if every copy is corrupt.
+ */
+export async function readIndexFile<T>(
+  path: string,
+  backups: number
+): Promise<{ data: T; path: string } | null> {
+  const candidates = [path, ...Array.from({ length: backups }, (_, i) => `${path}.${i + 1}`)];
+  const failures: string[] = [];
+
+  for (const candidate of candidates) {
+    if (!existsSync(candidate)) continue;
+    try {
+      return { data: decodeIndexFile<T>(await readFile(candidate, 'utf-8')), path: candidate };
+    } catch (error: any) {
+      console.warn(`Index file ${candidate} is unreadable: ${error.message}`);
+      failures.push(candidate);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`No intact copy of the index file; tried ${failures.join(', ')}`);
+  }
+  return null;
+}
+
+/**
+ * Take `path.lock` so no other process writes the same index file. A lock
+ * left by a process that has died on this host is taken over, as is one with
+ * our own pid that this process never took (e.g. after a container restart).
+ */
+export async function lockIndexFile(path: string): Promise<void> {
+  const lockPath = `${resolve(path)}.lock`;
+  const lock: IndexFileLock = { pid: process.pid, hostname: hostname(), at: Date.now() };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify(lock), 'utf-8');
+      } finally {
+        await handle.close();
+      }
+      heldLocks.add(lockPath);
+      return;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    const owner = await readLock(lockPath);
+    if (owner && isLockHeld(owner, lockPath)) {
+      const by = owner.pid === process.pid ? 'another instance in this process' : `process ${owner.pid} on ${owner.hostname}`;
+      throw new Error(`Index file ${path} is in use by ${by}; remove ${lockPath} if that is not the case`);
+    }
+    await unlink(lockPath).catch(() => undefined);
+  }
+
+  throw new Error(`Could not lock index file ${path}`);
+}
+
+/** Release the lock taken by `lockIndexFile`, unless another process has taken it over */
+export async function unlockIndexFile(path: string): Promise<void> {
+  const lockPath = `${resolve(path)}.lock`;
+  if (!heldLocks.delete(lockPath)) {
+    return;
+  }
+  const owner = await readLock(lockPath);
+  if (owner && owner.pid === process.pid && owner.hostname === hostname()) {
+    await unlink(lockPath).catch(() => undefined);
+  }
+}
+
+async function readLock(lockPath: string): Promise<IndexFileLock | null> {
+  try {
+    const lock = JSON.parse(await readFile(lockPath, 'utf-8'));
+    return typeof lock?.pid === 'number' ? lock : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Locks from other hosts can't be checked, so they count as held */
+function isLockHeld(lock: IndexFileLock, lockPath: string): boolean {
+  if (lock.hostname !== hostname()) {
+    return true;
+  }
+  if (lock.pid === process.pid) {
+    return heldLocks.has(lockPath);
+  }
+  try {
+    process.kill(lock.pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
+/** Make a rename durable; not supported on every platform */
+async function syncDirectory(dir: string): Promise<void> {
+  try {
+    const handle = await open(dir, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // e.g. EISDIR or EPERM on Windows
+  }
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text, 'utf-8').digest('hex');
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { assertValidMigrations, migrateDocument, planMigrations } from './migrations';
+import { Migration } from './types';
+
+const up = (doc: any) => doc;
+const migrations: Migration[] = [
+  { version: 2, table: 'users', up, down: up },
+  { version: 1, table: 'users', up, down: up },
+  { version: 3, table: 'users', up },
+  { version: 1, table: 'posts', up, down: up },
+];
+
+describe('migrations', () => {
+  it('rejects bad versions, tables, functions and duplicates', () => {
+    expect(() => assertValidMigrations(migrations)).not.toThrow();
+    expect(() => assertValidMigrations([{ version: 0, table: 'users', up }])).toThrow('Invalid migration version: 0');
+    expect(() => assertValidMigrations([{ version: 1.5, table: 'users', up }])).toThrow('Invalid migration version: 1.5');
+    expect(() => assertValidMigrations([{ version: 1, table: '__SYSTEM__', up }])).toThrow('Invalid table for migration 1');
+    expect(() => assertValidMigrations([{ version: 1, table: 'users' } as any])).toThrow('users@1 has no up function');
+    expect(() => assertValidMigrations([migrations[1], migrations[1]])).toThrow('Duplicate migration users@1');
+  });
+
+  it('plans the steps up from each table\'s version, in order', () => {
+    const plans = planMigrations(migrations, { users: 1 });
+
+    expect(plans.map(plan => [plan.table, plan.fromVersion, plan.toVersion, plan.direction, plan.steps.map(step => step.version)]))
+      .toEqual([['users', 1, 3, 'up', [2, 3]], ['posts', 0, 1, 'up', [1]]]);
+    expect(planMigrations(migrations, { users: 3, posts: 1 })).toEqual([]);
+    expect(planMigrations(migrations, { users: 5 }, { table: 'users' })).toEqual([]);
+    expect(planMigrations(migrations, {}, { to: 1, table: 'users' })[0].steps.map(step => step.version)).toEqual([1]);
+  });
+
+  it('plans rollbacks in reverse and refuses to undo a step without down', () => {
+    const [plan] = planMigrations(migrations, { users: 2 }, { to: 0, table: 'users' });
+
+    expect(plan).toMatchObject({ fromVersion: 2, toVersion: 0, direction: 'down' });
+    expect(plan.steps.map(step => step.version)).toEqual([2, 1]);
+    expect(() => planMigrations(migrations, { users: 3 }, { to: 2 })).toThrow('Migration users@3 has no down function');
+    expect(() => planMigrations(migrations, {}, { to: -1 })).toThrow('Invalid target version: -1');
+  });
+
+  it('runs a document through the steps on a copy, keeping its id and table', async () => {
+    const doc = { _id: 'a', _table: 'users', name: 'Ann Lee' };
+    const split: Migration = {
+      version: 1,
+      table: 'users',
+      up: (user: any) => {
+        const [first, last] = user.name.split(' ');
+        user.first = first;
+        user.last = last;
+        delete user.name;
+        return { ...user, _id: 'changed' };
+      },
+    };
+    const plan = { table: 'users', fromVersion: 0, toVersion: 1, direction: 'up' as const, steps: [split] };
+
+    expect(await migrateDocument(doc, plan)).toEqual({ _id: 'a', _table: 'users', first: 'Ann', last: 'Lee' });
+    expect(doc.name).toBe('Ann Lee');
+    expect(await migrateDocument(doc, { ...plan, steps: [{ ...split, up: () => null }] })).toBeNull();
+    await expect(migrateDocument(doc, { ...plan, steps: [{ ...split, up: () => 'x' as any }] }))
+      .rejects.toThrow('Migration users@1 must return a document or null');
+  });
+});
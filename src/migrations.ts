@@ -0,0 +1,96 @@
+import { Document, Migration, MigrationOptions } from './types';
+
+/** Migrations to run for one table */
+export interface MigrationPlan {
+  table: string;
+  fromVersion: number;
+  toVersion: number;
+  direction: 'up' | 'down';
+  /** In the order they run: ascending going up, descending rolling back */
+  steps: Migration[];
+}
+
+/** Throws for bad versions, missing tables or functions, and duplicate versions */
+export function assertValidMigrations(migrations: Migration[]): void {
+  const seen = new Set<string>();
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(`Invalid migration version: ${migration.version}`);
+    }
+    if (typeof migration.table !== 'string' || migration.table === '' || migration.table === '__SYSTEM__') {
+      throw new Error(`Invalid table for migration ${migration.version}: ${migration.table}`);
+    }
+    if (typeof migration.up !== 'function') {
+      throw new Error(`Migration ${migration.table}@${migration.version} has no up function`);
+    }
+
+    const key = `${migration.table}@${migration.version}`;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate migration ${key}`);
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Work out which migrations take each table from its current version to
+ * `options.to`. Tables with nothing to run are left out.
+ */
+export function planMigrations(
+  migrations: Migration[],
+  versions: { [table: string]: number },
+  options: MigrationOptions = {}
+): MigrationPlan[] {
+  if (options.to !== undefined && (!Number.isInteger(options.to) || options.to < 0)) {
+    throw new Error(`Invalid target version: ${options.to}`);
+  }
+
+  const tables = Array.from(new Set(migrations.map(migration => migration.table)))
+    .filter(table => options.table === undefined || table === options.table);
+
+  const plans: MigrationPlan[] = [];
+  for (const table of tables) {
+    const tableMigrations = migrations
+      .filter(migration => migration.table === table)
+      .sort((a, b) => a.version - b.version);
+    const fromVersion = versions[table] ?? 0;
+    const target = options.to ?? tableMigrations[tableMigrations.length - 1].version;
+
+    if (target > fromVersion) {
+      const steps = tableMigrations.filter(migration => migration.version > fromVersion && migration.version <= target);
+      if (steps.length > 0) {
+        plans.push({ table, fromVersion, toVersion: steps[steps.length - 1].version, direction: 'up', steps });
+      }
+    } else if (options.to !== undefined && target < fromVersion) {
+      // Without `to`, a table ahead of the given migrations is left alone
+      const steps = tableMigrations
+        .filter(migration => migration.version > target && migration.version <= fromVersion)
+        .reverse();
+      const irreversible = steps.find(migration => typeof migration.down !== 'function');
+      if (irreversible) {
+        throw new Error(`Migration ${table}@${irreversible.version} has no down function`);
+      }
+      plans.push({ table, fromVersion, toVersion: target, direction: 'down', steps });
+    }
+  }
+
+  return plans;
+}
+
+/** Run a document through every step of a plan; null if a step deletes it */
+export async function migrateDocument(doc: Document, plan: MigrationPlan): Promise<Document | null> {
+  let current: Document = doc;
+  for (const migration of plan.steps) {
+    const step = plan.direction === 'up' ? migration.up : migration.down!;
+    // Steps get a copy, so one that mutates its input can't touch the cache
+    const result = await step(JSON.parse(JSON.stringify(current)));
+    if (result === null) {
+      return null;
+    }
+    if (typeof result !== 'object' || Array.isArray(result)) {
+      throw new Error(`Migration ${plan.table}@${migration.version} must return a document or null`);
+    }
+    current = result;
+  }
+  return { ...current, _id: doc._id, _table: doc._table };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { applySchemaDefaults, assertValidSchema, validateDocument } from './schema';
+import { TableSchema } from './types';
+
+const schema: TableSchema = {
+  type: 'object',
+  required: ['name', 'email'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    email: { type: 'string' },
+    age: { type: 'integer' },
+    role: { enum: ['admin', 'user'], default: 'user' },
+    tags: { type: 'array', items: { type: 'string' } },
+    address: {
+      type: ['object', 'null'],
+      required: ['city'],
+      properties: { city: { type: 'string' }, country: { type: 'string', default: 'FR' } },
+    },
+  },
+};
+
+describe('schema', () => {
+  it('accepts a valid document and the system fields', () => {
+    const doc = { _id: 'a', _table: 'users', _rev: 1, expireAt: 1, name: 'Ann', email: 'ann@example.com', address: null };
+
+    expect(validateDocument(doc, schema)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const doc = {
+      _id: 'a',
+      _table: 'users',
+      email: 42,
+      age: 1.5,
+      role: 'root',
+      tags: ['a', 1],
+      address: { country: 'DE' },
+      extra: true,
+    };
+
+    expect(validateDocument(doc, schema)).toEqual([
+      { path: 'name', message: 'name is required' },
+      { path: 'email', message: 'email must be of type string' },
+      { path: 'age', message: 'age must be of type integer' },
+      { path: 'role', message: 'role must be one of "admin", "user"' },
+      { path: 'tags.1', message: 'tags.1 must be of type string' },
+      { path: 'address.city', message: 'address.city is required' },
+      { path: 'extra', message: 'extra is not allowed' },
+    ]);
+  });
+
+  it('fills in defaults, nested ones included, without touching the input', () => {
+    const doc = { name: 'Ann', address: { city: 'Paris' } };
+
+    expect(applySchemaDefaults(doc, schema)).toEqual({ name: 'Ann', role: 'user', address: { city: 'Paris', country: 'FR' } });
+    expect(doc).toEqual({ name: 'Ann', address: { city: 'Paris' } });
+  });
+
+  it('rejects malformed schemas', () => {
+    expect(() => assertValidSchema({ properties: { age: { type: 'int' as any } } })).toThrow('Unknown schema type at age: int');
+    expect(() => assertValidSchema({ enum: 'admin' as any })).toThrow('enum must be an array at schema');
+    expect(() => assertValidSchema({ items: { required: 'x' as any } })).toThrow('required must be an array at []');
+  });
+});
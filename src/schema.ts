@@ -0,0 +1,123 @@
+import { Document, SchemaProperty, SchemaType, TableSchema, ValidationIssue } from './types';
+import { isEqual } from './utils';
+
+const SCHEMA_TYPES: SchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const SYSTEM_FIELDS = ['_id', '_table', '_rev', 'expireAt'];
+
+/** Throws if a schema uses unknown types or malformed keywords */
+export function assertValidSchema(schema: SchemaProperty, path: string = ''): void {
+  const where = path || 'schema';
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  for (const type of types) {
+    if (!SCHEMA_TYPES.includes(type)) {
+      throw new Error(`Unknown schema type at ${where}: ${type}`);
+    }
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new Error(`enum must be an array at ${where}`);
+  }
+  if (schema.required !== undefined && !Array.isArray(schema.required)) {
+    throw new Error(`required must be an array at ${where}`);
+  }
+
+  for (const [field, property] of Object.entries(schema.properties ?? {})) {
+    assertValidSchema(property, joinPath(path, field));
+  }
+  if (schema.items) {
+    assertValidSchema(schema.items, joinPath(path, '[]'));
+  }
+}
+
+/** Copy of a document with `default` values filled in for missing fields */
+export function applySchemaDefaults<T extends object>(doc: T, schema: SchemaProperty): T {
+  const result: any = { ...doc };
+
+  for (const [field, property] of Object.entries(schema.properties ?? {})) {
+    if (result[field] === undefined && property.default !== undefined) {
+      result[field] = JSON.parse(JSON.stringify(property.default));
+    } else if (isPlainObject(result[field]) && property.properties) {
+      result[field] = applySchemaDefaults(result[field], property);
+    }
+  }
+
+  return result;
+}
+
+/** Every way a document breaks its table schema; empty when it is valid */
+export function validateDocument(doc: Document, schema: TableSchema): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(doc, schema, '', issues);
+  return issues;
+}
+
+function validateValue(value: any, schema: SchemaProperty, path: string, issues: ValidationIssue[]): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ path, message: `${path || 'document'} must be of type ${types.join(' or ')}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(allowed => isEqual(allowed, value))) {
+    issues.push({
+      path,
+      message: `${path} must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`,
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const field of schema.required ?? []) {
+      if (value[field] === undefined) {
+        issues.push({ path: joinPath(path, field), message: `${joinPath(path, field)} is required` });
+      }
+    }
+
+    const properties = schema.properties ?? {};
+    for (const [field, property] of Object.entries(properties)) {
+      if (value[field] !== undefined) {
+        validateValue(value[field], property, joinPath(path, field), issues);
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const field of Object.keys(value)) {
+        if (!(field in properties) && !(path === '' && SYSTEM_FIELDS.includes(field))) {
+          issues.push({ path: joinPath(path, field), message: `${joinPath(path, field)} is not allowed` });
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateValue(item, schema.items!, joinPath(path, String(i)), issues));
+  }
+}
+
+function matchesType(value: any, type: SchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function isPlainObject(value: any): value is { [key: string]: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
@@ -1,26 +1,194 @@
 export interface TelegramDBConfig {
-  botToken: string;
-  chatId: string | number;
+  /** Bot token used to create the default Telegraf transport. Required unless `transport` is given. */
+  botToken?: string;
+  /**
+   * Chat that stores the database. A list of chats, or ShardOptions, spreads
+   * documents over several chats; the first one also holds the index.
+   */
+  chatId: string | number | Array<string | number> | ShardOptions;
+  /** Custom transport for talking to Telegram. Default: TelegrafTransport built from `botToken` */
+  transport?: Transport;
+  /** Maximum characters per message; larger documents are split into parts (default: 4096) */
+  maxMessageLength?: number;
+  /**
+   * When index changes are written to the local file and the chat.
+   * 'immediate' (default) after every operation, 'deferred' in the background.
+   * Changes are journaled locally in both modes, so a crash loses nothing.
+   */
+  indexWriteMode?: 'immediate' | 'deferred';
+  /** Deferred mode: max ms between a change and the index flush (default: 5000) */
+  indexFlushInterval?: number;
+  /** Deferred mode: flush as soon as this many changes are pending (default: 100) */
+  indexFlushThreshold?: number;
   messagePrefix?: string;
   batchDelay?: number;
+  /** Max attempts for Telegram calls failing with retryable errors (default: 3). 429s are retried separately. */
   maxRetries?: number;
+  /** Throughput limits for outbound Telegram calls */
+  rateLimit?: RateLimitOptions;
   /** Path to persist index across restarts. Default: .tg-db-index-{chatId}.json in cwd */
   indexFilePath?: string;
+  /** Previous copies of the index file kept as `{indexFilePath}.1` and so on (default: 3) */
+  indexBackups?: number;
+  /** Lock the index file so only one process uses it at a time (default: true) */
+  lockIndexFile?: boolean;
+  /** Encrypt documents and the index message stored in the chat */
+  encryption?: EncryptionOptions;
+  /** How documents are encoded into messages (default: plain JSON) */
+  codec?: CodecOptions;
+  /**
+   * Receive other clients' changes as they happen (default: true). Turn off
+   * for short-lived tools: only one process per bot token can receive updates.
+   */
+  listen?: boolean;
+  /** Ms between background deletions of expired documents; 0 turns it off (default: 60000) */
+  ttlSweepInterval?: number;
+  /** Max expired documents deleted per background sweep (default: 100) */
+  ttlSweepBatchSize?: number;
+}
+
+/** How documents are spread over several chats */
+export interface ShardOptions {
+  /** Chats documents are spread over. The first also holds the index and transaction markers. */
+  chats: Array<string | number>;
+  /** Pick each document's chat by a hash of its table (default) or of its `_id` */
+  by?: 'table' | 'id';
+  /** Tables kept in a given chat, whatever `by` picks; the chat doesn't have to be in `chats` */
+  tables?: { [table: string]: string | number };
+}
+
+/** Compresses message payloads; `name` is written into each message it encodes */
+export interface CompressionCodec {
+  name: string;
+  compress(data: Buffer): Buffer;
+  decompress(data: Buffer): Buffer;
+}
+
+/** Text-safe form of binary payloads: base64, or base16k (14 bits per character) */
+export type TextEncoding = 'base64' | 'base16k';
+
+export interface CodecOptions {
+  /** Compression of new messages (default: 'none') */
+  compression?: 'none' | 'deflate' | 'brotli' | CompressionCodec;
+  /** How compressed or encrypted payloads are written as text (default: 'base64') */
+  encoding?: TextEncoding;
+}
+
+/** A raw 32-byte key, or a passphrase the key is derived from with scrypt */
+export type EncryptionKey = Buffer | string;
+
+export interface EncryptionOptions {
+  /** Key used for new messages */
+  key: EncryptionKey;
+  /** Keys older messages may still be encrypted with. Only used for reading, see `reencrypt()`. */
+  previousKeys?: EncryptionKey[];
+  /** Salt for passphrase keys; every client must use the same (default: `tg-db:{chatId}`) */
+  salt?: string;
+  /** Encrypt only these (possibly dotted) fields and leave the rest of each document readable */
+  fields?: string[];
+  /** Accept unencrypted messages, e.g. while migrating existing data (default: false) */
+  allowPlaintext?: boolean;
 }
 
 export interface Document {
   _id: string;
   _table: string;
+  /** Revision, set to 1 on insert and incremented by every update */
+  _rev?: number;
+  /** When the document expires: ms since epoch or a date string */
+  expireAt?: number | string;
   [key: string]: any;
 }
 
+/** A stored document whose fields are typed as T */
+export type StoredDocument<T> = T & { _id: string; _table: string; _rev?: number };
+
+/** Fields accepted by insert; `_id` is generated when omitted */
+export type NewDocument<T> = Omit<T, '_id' | '_table' | '_rev'> & { _id?: string };
+
+/** One message of a payload split across several messages */
+export interface MessagePart {
+  id: string;
+  /** 1-based position of this part */
+  index: number;
+  total: number;
+  chunk: string;
+}
+
 export interface QueryFilter {
   [key: string]: any;
 }
 
+/** Sort direction per field: 1 ascending, -1 descending. Dotted paths allowed. */
+export interface SortSpec {
+  [field: string]: 1 | -1;
+}
+
+/** Fields to include (1/true) or exclude (0/false). Dotted paths allowed. */
+export interface Projection {
+  [field: string]: 0 | 1 | boolean;
+}
+
+export interface FindOptions {
+  sort?: SortSpec;
+  limit?: number;
+  skip?: number;
+  projection?: Projection;
+  /** Match the documents as they were at this time (ms, Date or date string); needs table history */
+  asOf?: number | string | Date;
+}
+
+/** One stage of an aggregation pipeline; exactly one key per stage */
+export interface PipelineStage {
+  $match?: QueryFilter;
+  /** `_id` is the group key expression; other fields are accumulators like `{ $sum: '$price' }` */
+  $group?: { _id: any; [field: string]: any };
+  $sort?: SortSpec;
+  $limit?: number;
+  $skip?: number;
+  /** 1/0 to include/exclude, or an expression (`'$field'` or a literal) to compute */
+  $project?: { [field: string]: any };
+  $unwind?: string | { path: string; preserveNullAndEmptyArrays?: boolean };
+  /** Join documents of another table where `localField` equals `foreignField` */
+  $lookup?: { from: string; localField: string; foreignField: string; as: string };
+}
+
+type FieldValues = { [field: string]: any };
+
+/** MongoDB-style update operators. Field names may be dotted paths. */
+export interface UpdateOperators {
+  $set?: FieldValues;
+  $unset?: { [field: string]: true | 1 | '' };
+  $inc?: { [field: string]: number };
+  $mul?: { [field: string]: number };
+  $min?: FieldValues;
+  $max?: FieldValues;
+  /** Append a value, or several with `{ $each: [...] }` */
+  $push?: FieldValues;
+  /** Remove array elements equal to the value or matching a condition */
+  $pull?: FieldValues;
+  /** Append values not already in the array; supports `$each` */
+  $addToSet?: FieldValues;
+  /** Rename fields: `{ oldName: 'newName' }` */
+  $rename?: { [field: string]: string };
+  /** Fields set only when an upsert inserts a new document */
+  $setOnInsert?: FieldValues;
+}
+
+/** Plain fields to deep-merge (or replace with), or update operators - not both */
+export type UpdateSpec = Partial<Document> | UpdateOperators;
+
+/** UpdateSpec whose plain fields are checked against T */
+export type TypedUpdateSpec<T> = Partial<Omit<T, '_id' | '_table' | '_rev'>> | UpdateOperators;
+
 export interface UpdateOptions {
   upsert?: boolean;
   replace?: boolean;
+  /**
+   * Only update if the cached `_rev` of every matched document equals this.
+   * Otherwise the update fails with code 'CONFLICT' and nothing is written.
+   */
+  ifRev?: number;
 }
 
 export interface OperationResult {
@@ -28,6 +196,8 @@ export interface OperationResult {
   message?: string;
   data?: any;
   error?: Error;
+  /** Machine-readable failure reason, e.g. 'DUPLICATE_KEY' */
+  code?: string;
 }
 
 export interface BatchOptions {
@@ -35,9 +205,372 @@ export interface BatchOptions {
   stopOnError?: boolean;
 }
 
+/** File formats of `export()` and `import()`: JSON Lines, a JSON array, or CSV */
+export type DumpFormat = 'jsonl' | 'json' | 'csv';
+
+export interface ExportOptions {
+  /** Tables to export (default: all) */
+  tables?: string[];
+  /** Default: inferred from the file extension, otherwise 'jsonl' */
+  format?: DumpFormat;
+}
+
+export interface ImportOptions extends BatchOptions {
+  /** Default: inferred from the file extension, otherwise 'jsonl' */
+  format?: DumpFormat;
+  /** Only import documents of these tables */
+  tables?: string[];
+  /** Table of documents without `_table`, e.g. rows of a CSV file exported from elsewhere */
+  table?: string;
+  /** Keep the `_id` of imported documents, or give them new ones (default: 'preserve') */
+  ids?: 'preserve' | 'regenerate';
+  /**
+   * When a document with the same `_id` exists: record a failure with code
+   * 'DUPLICATE_KEY', leave it, or replace it (default: 'error')
+   */
+  onConflict?: 'error' | 'skip' | 'overwrite';
+  /** Called after every document */
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+/** Documents keep their `_id` when migrated */
+export type MigrateOptions = Omit<ImportOptions, 'format' | 'table' | 'ids'>;
+
+export interface ImportProgress {
+  processed: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  /** Number of documents to process, when known in advance */
+  total?: number;
+}
+
+/** `data` of the result of `import()` and `migrateTo()` */
+export interface ImportReport {
+  importedCount: number;
+  skippedCount: number;
+  failed: ImportFailure[];
+}
+
+export interface ImportFailure {
+  /** 1-based position of the record in the source */
+  position: number;
+  documentId?: string;
+  code?: string;
+  message: string;
+}
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/** JSON-Schema-style description of a value */
+export interface SchemaProperty {
+  /** Allowed type, or several; `integer` also satisfies `number` checks */
+  type?: SchemaType | SchemaType[];
+  /** Allowed values */
+  enum?: any[];
+  /** Filled in on insert (and replace) when the field is missing */
+  default?: any;
+  /** Object fields */
+  properties?: { [field: string]: SchemaProperty };
+  /** Object fields that must be present */
+  required?: string[];
+  /** `false` rejects object fields not listed in `properties` */
+  additionalProperties?: boolean;
+  /** Schema of every array element */
+  items?: SchemaProperty;
+}
+
+/** Schema of the documents of a table. `_id`, `_table`, `_rev` and `expireAt` are always allowed. */
+export interface TableSchema extends SchemaProperty {
+  properties: { [field: string]: SchemaProperty };
+}
+
+export interface TableOptions {
+  /** Validate documents written to the table */
+  schema?: TableSchema;
+  /**
+   * Expire documents this long after insert, as ms or a duration like '15m',
+   * '1h' or '7d'. Sets `expireAt` on inserted documents that have none.
+   */
+  ttl?: number | string;
+  /** Keep previous versions of updated and deleted documents; see `findHistory()` */
+  history?: boolean | HistoryOptions;
+}
+
+/** Retention of a table's history; versions beyond either limit are dropped */
+export interface HistoryOptions {
+  /** Most previous versions kept per document */
+  maxVersions?: number;
+  /** How long a version is kept after it was replaced, as ms or a duration like '30d' */
+  maxAge?: number | string;
+}
+
+/** A version of a document, as returned by `findHistory()` */
+export interface DocumentVersion<T = Document> {
+  doc: T;
+  /** When the version was written; null if written before history was enabled */
+  validFrom: number | null;
+  /** When it was replaced or deleted; null for the current version */
+  validTo: number | null;
+  /** Whether the version ended with the document being deleted */
+  deleted: boolean;
+}
+
+export interface ValidationIssue {
+  /** Dotted path of the offending field */
+  path: string;
+  message: string;
+}
+
+export interface IndexOptions {
+  /** Reject inserts and updates that would store a value twice (default: false) */
+  unique?: boolean;
+}
+
+/** A secondary index on one (possibly dotted) field of a table */
+export interface IndexDefinition {
+  table: string;
+  field: string;
+  unique: boolean;
+}
+
+/** `data` of a failed OperationResult with code 'CONFLICT' */
+export interface RevisionConflict {
+  documentId: string;
+  expectedRev: number;
+  /** Revision currently stored in the chat */
+  actualRev: number;
+}
+
+/** `data` of a failed OperationResult with code 'DUPLICATE_KEY' */
+export interface DuplicateKeyError {
+  field: string;
+  value: any;
+  /** Document that already holds the value */
+  existingId: string;
+}
+
+export type ChangeType = 'insert' | 'update' | 'delete';
+
+/** 'local' for writes of this instance, 'remote' for messages from other clients of the chat */
+export type ChangeSource = 'local' | 'remote';
+
+/** A document change delivered by `watch()` */
+export interface ChangeEvent<T = Document> {
+  type: ChangeType;
+  table: string;
+  documentId: string;
+  /** Document before the change; null for inserts */
+  before: T | null;
+  /** Document after the change; null for deletes */
+  after: T | null;
+  source: ChangeSource;
+  /** When the change was applied locally (ms since epoch) */
+  timestamp: number;
+}
+
+export interface VerifyOptions {
+  /**
+   * Also read every message id in each chat between the lowest and highest
+   * ids the index references, to find `TDB:` messages it doesn't reference.
+   * One request per message id (two with TelegrafTransport: a forward and a delete).
+   */
+  scan?: boolean;
+  /** Message id to start the scan at, in every chat */
+  scanFrom?: number;
+}
+
+/** Messages holding one copy of a document, or one index message, found by a scan */
+export interface StrayMessages {
+  chatId: string | number;
+  messageIds: number[];
+  /** `_id` of the document the messages hold, if they could be read */
+  documentId?: string;
+}
+
+/** `data` of the result of `verify()` */
+export interface VerifyReport {
+  checkedCount: number;
+  /** Documents whose messages are gone or can't be decoded */
+  missing: string[];
+  /** Documents whose messages hold a different version than the cache */
+  mismatched: string[];
+  /** Cached documents the index has no messages for */
+  unindexed: string[];
+  /** Whether the pinned message of the chat is the current index message */
+  indexPinned: boolean;
+  /** Message ids read by a scan; 0 without `scan` */
+  scannedCount: number;
+  /** Copies of indexed documents in messages the index doesn't reference, e.g. left by a failed delete */
+  duplicates: StrayMessages[];
+  /** Documents in messages the index doesn't reference, whose `_id` it doesn't know */
+  orphaned: StrayMessages[];
+  /** Index messages other than the current one */
+  staleIndexMessages: StrayMessages[];
+}
+
+/** How `repair()` fixes each kind of problem `verify()` finds */
+export interface RepairOptions extends VerifyOptions {
+  /** Missing and unindexed documents: send them again from the cache (default) or drop them */
+  missing?: 'resend' | 'drop';
+  /** Mismatched documents: write the cached version (default) or take the stored one */
+  mismatched?: 'cache' | 'chat';
+  /** Orphaned documents: add them to the index (default), delete their messages, or leave them */
+  orphaned?: 'adopt' | 'delete' | 'keep';
+  /** Duplicates and stale index messages: delete them (default) or leave them */
+  stray?: 'delete' | 'keep';
+}
+
+/** `data` of the result of `repair()` */
+export interface RepairReport {
+  /** What `verify()` found before the repair */
+  found: VerifyReport;
+  resent: string[];
+  dropped: string[];
+  rewritten: string[];
+  /** Documents whose stored version replaced the cached one */
+  reloaded: string[];
+  adopted: string[];
+  deletedMessageCount: number;
+}
+
+/** Function turning a document into its new shape; null deletes it */
+export type MigrationStep = (doc: Document) => Document | null | Promise<Document | null>;
+
+/** One versioned change to the documents of a table */
+export interface Migration {
+  /** Positive integer; a table's migrations run in version order */
+  version: number;
+  table: string;
+  description?: string;
+  up: MigrationStep;
+  /** Reverses `up`; required to roll back past this version */
+  down?: MigrationStep;
+}
+
+export interface MigrationOptions {
+  /** Version to end at; lower than the current one rolls back (default: the highest given) */
+  to?: number;
+  /** Only migrate this table */
+  table?: string;
+  /** Report what would change without writing */
+  dryRun?: boolean;
+  /** Ms after which a lock left by another process is ignored (default: 3600000) */
+  lockTimeout?: number;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  tables: MigrationTableReport[];
+}
+
+export interface MigrationTableReport {
+  table: string;
+  fromVersion: number;
+  toVersion: number;
+  direction: 'up' | 'down';
+  /** Versions run, in the order they ran */
+  versions: number[];
+  updatedCount: number;
+  deletedCount: number;
+}
+
+export interface RebuildIndexOptions {
+  /** Report what the pinned index holds without applying it */
+  dryRun?: boolean;
+}
+
+export interface RebalanceOptions {
+  /** Count the documents that would move without moving them */
+  dryRun?: boolean;
+}
+
+export interface IndexRebuildReport {
+  /** Message id of the chat index the state was rebuilt from */
+  indexMessageId: number | null;
+  documentCount: number;
+  tables: string[];
+  /** Document ids present in the message index but without a cached document */
+  missingDocuments: string[];
+  /** When the recovered index was written (ms since epoch) */
+  updatedAt: number | null;
+}
+
+export interface RateLimitOptions {
+  /** Max requests per chat within `interval` (default: 20; see the README for group and channel limits) */
+  perChat?: number;
+  /** Max requests across all chats within `interval` (default: 30) */
+  global?: number;
+  /** Window length in ms (default: 1000) */
+  interval?: number;
+  /** Max retries after 429 Too Many Requests, honoring retry_after (default: 10) */
+  maxRateLimitRetries?: number;
+}
+
+export interface SchedulerMetrics {
+  /** Requests waiting to be sent */
+  queueDepth: number;
+  /** Requests currently in progress */
+  inFlight: number;
+  totalRequests: number;
+  failedRequests: number;
+  /** Retries after retryable errors other than 429 */
+  retries: number;
+  /** 429 responses received */
+  rateLimitHits: number;
+  /** Time requests spent queued before their first attempt */
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
 export interface DatabaseStats {
   totalDocuments: number;
   totalMessages: number;
   oldestDocument?: Document;
   newestDocument?: Document;
+  /** Documents and messages per chat, for sharded databases */
+  shards?: ShardStats[];
+}
+
+export interface ShardStats {
+  chatId: string | number;
+  documents: number;
+  messages: number;
+}
+
+/** A chat message as seen through a Transport */
+export interface TransportMessage {
+  message_id: number;
+  chat_id: string | number;
+  text?: string;
+  date?: number;
+  /** Set when the message is an edit of an earlier message */
+  edited?: boolean;
+  /** Set when the message is a forwarded copy of another message */
+  forwarded?: boolean;
+}
+
+export interface TransportChat {
+  id: string | number;
+  pinned_message?: TransportMessage;
+}
+
+export type TransportMessageHandler = (message: TransportMessage) => void | Promise<void>;
+
+/** Low-level channel between TelegramDB and a Telegram chat */
+export interface Transport {
+  /** Verify credentials / connectivity */
+  getMe(): Promise<unknown>;
+  getChat(chatId: string | number): Promise<TransportChat>;
+  sendMessage(chatId: string | number, text: string): Promise<TransportMessage>;
+  editMessageText(chatId: string | number, messageId: number, text: string): Promise<TransportMessage>;
+  /** Read an existing message by id. Returns null if it does not exist. May take several API calls. */
+  getMessage(chatId: string | number, messageId: number): Promise<TransportMessage | null>;
+  deleteMessage(chatId: string | number, messageId: number): Promise<boolean>;
+  pinMessage(chatId: string | number, messageId: number): Promise<boolean>;
+  /** Subscribe to messages posted or edited in any chat by other clients */
+  onMessage(handler: TransportMessageHandler): void;
+  /** Start receiving incoming messages */
+  start(): Promise<void>;
+  stop(): void;
 }
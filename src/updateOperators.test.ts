@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyUpdateOperators, createUpsertDocument, isOperatorUpdate } from './updateOperators';
+import { Document } from './types';
+
+describe('update operators', () => {
+  const doc: Document = {
+    _id: 'a',
+    _table: 'users',
+    name: 'Ann',
+    visits: 2,
+    price: 10,
+    tags: ['vip'],
+    scores: [30, 60, 90],
+    address: { city: 'Paris' },
+  };
+
+  it('sets, unsets and renames fields, dotted paths included', () => {
+    const result = applyUpdateOperators(doc, {
+      $set: { 'address.zip': '75001', 'profile.bio': 'Hi' },
+      $unset: { name: 1 },
+      $rename: { visits: 'stats.visits' },
+    });
+
+    expect(result).toMatchObject({ address: { city: 'Paris', zip: '75001' }, profile: { bio: 'Hi' }, stats: { visits: 2 } });
+    expect(result).not.toHaveProperty('name');
+    expect(result).not.toHaveProperty('visits');
+    expect(doc.name).toBe('Ann');
+  });
+
+  it('does arithmetic, starting missing fields at 0', () => {
+    expect(applyUpdateOperators(doc, { $inc: { visits: 1, likes: 5 }, $mul: { price: 1.5 } }))
+      .toMatchObject({ visits: 3, likes: 5, price: 15 });
+    expect(applyUpdateOperators(doc, { $min: { price: 5 }, $max: { visits: 1, best: 7 } }))
+      .toMatchObject({ price: 5, visits: 2, best: 7 });
+    expect(() => applyUpdateOperators(doc, { $inc: { name: 1 } })).toThrow('Cannot apply $inc to non-numeric field name');
+    expect(() => applyUpdateOperators(doc, { $inc: { visits: '1' } } as any)).toThrow('$inc requires a number');
+  });
+
+  it('pushes, adds to sets and pulls array elements', () => {
+    const result = applyUpdateOperators(doc, {
+      $push: { scores: { $each: [10, 20] } },
+      $addToSet: { tags: { $each: ['vip', 'new'] } },
+    });
+    expect(result).toMatchObject({ scores: [30, 60, 90, 10, 20], tags: ['vip', 'new'] });
+
+    expect(applyUpdateOperators(doc, { $pull: { scores: { $lt: 50 }, tags: 'vip' } }))
+      .toMatchObject({ scores: [60, 90], tags: [] });
+    expect(() => applyUpdateOperators(doc, { $push: { name: 'x' } })).toThrow('Cannot apply $push to non-array field name');
+  });
+
+  it('applies $setOnInsert only when inserting', () => {
+    expect(applyUpdateOperators(doc, { $setOnInsert: { createdAt: 1 } })).not.toHaveProperty('createdAt');
+    expect(applyUpdateOperators(doc, { $setOnInsert: { createdAt: 1 } }, true)).toMatchObject({ createdAt: 1 });
+  });
+
+  it('tells operator updates from plain ones and rejects bad ones', () => {
+    expect(isOperatorUpdate({ $set: { name: 'Bob' } })).toBe(true);
+    expect(isOperatorUpdate({ name: 'Bob' })).toBe(false);
+    expect(() => isOperatorUpdate({ $set: { name: 'Bob' }, age: 1 } as any)).toThrow('cannot mix operators and plain fields');
+    expect(() => isOperatorUpdate({ $push2: { a: 1 } } as any)).toThrow('Unknown update operator: $push2');
+    expect(() => isOperatorUpdate({ $set: { _id: 'b' } })).toThrow('$set cannot modify _id');
+    expect(() => isOperatorUpdate({ $inc: 1 } as any)).toThrow('$inc requires an object of fields');
+  });
+
+  it('builds the upsert document from the filter\'s equality fields', () => {
+    expect(createUpsertDocument(
+      { name: 'Ann', age: { $gte: 18 }, 'address.city': 'Paris' },
+      { $set: { active: true }, $setOnInsert: { visits: 0 } }
+    )).toEqual({ name: 'Ann', address: { city: 'Paris' }, active: true, visits: 0 });
+    expect(createUpsertDocument({ name: 'Ann' }, { age: 30 })).toEqual({ name: 'Ann', age: 30 });
+  });
+});
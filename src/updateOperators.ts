@@ -0,0 +1,217 @@
+import { Document, QueryFilter, UpdateSpec } from './types';
+import { matchesFilter, compareValues, isEqual, deepMerge } from './utils';
+
+const UPDATE_OPERATORS = [
+  '$set',
+  '$unset',
+  '$inc',
+  '$mul',
+  '$min',
+  '$max',
+  '$push',
+  '$pull',
+  '$addToSet',
+  '$rename',
+  '$setOnInsert',
+];
+
+const PROTECTED_FIELDS = ['_id', '_table', '_rev'];
+
+/**
+ * Whether an update uses operators (`{ $set: ... }`) rather than plain fields.
+ * Throws if the two are mixed or an operator is unknown.
+ */
+export function isOperatorUpdate(update: UpdateSpec): boolean {
+  const keys = Object.keys(update);
+  const operators = keys.filter(key => key.startsWith('$'));
+
+  if (operators.length === 0) {
+    return false;
+  }
+  if (operators.length < keys.length) {
+    throw new Error(`Update cannot mix operators and plain fields: ${keys.join(', ')}`);
+  }
+
+  for (const op of operators) {
+    if (!UPDATE_OPERATORS.includes(op)) {
+      throw new Error(`Unknown update operator: ${op}`);
+    }
+    const fields = (update as any)[op];
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      throw new Error(`${op} requires an object of fields`);
+    }
+    for (const field of Object.keys(fields)) {
+      if (PROTECTED_FIELDS.includes(field.split('.')[0])) {
+        throw new Error(`${op} cannot modify ${field}`);
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Apply update operators to a copy of a document. `$setOnInsert` only applies
+ * when `isInsert` is set (upsert creating a new document).
+ */
+export function applyUpdateOperators(
+  doc: Document,
+  update: UpdateSpec,
+  isInsert: boolean = false
+): Document {
+  const result: Document = JSON.parse(JSON.stringify(doc));
+
+  for (const [op, fields] of Object.entries(update) as [string, { [field: string]: any }][]) {
+    for (const [path, value] of Object.entries(fields)) {
+      switch (op) {
+        case '$set':
+          setPath(result, path, value);
+          break;
+        case '$setOnInsert':
+          if (isInsert) {
+            setPath(result, path, value);
+          }
+          break;
+        case '$unset':
+          unsetPath(result, path);
+          break;
+        case '$inc':
+        case '$mul': {
+          if (typeof value !== 'number') {
+            throw new Error(`${op} requires a number for ${path}`);
+          }
+          const current = getPath(result, path);
+          if (current !== undefined && typeof current !== 'number') {
+            throw new Error(`Cannot apply ${op} to non-numeric field ${path}`);
+          }
+          setPath(result, path, op === '$inc' ? (current ?? 0) + value : (current ?? 0) * value);
+          break;
+        }
+        case '$min':
+        case '$max': {
+          const current = getPath(result, path);
+          const comparison = compareValues(value, current);
+          if (current === undefined || (op === '$min' ? comparison < 0 : comparison > 0)) {
+            setPath(result, path, value);
+          }
+          break;
+        }
+        case '$push':
+        case '$addToSet': {
+          const array = getArrayPath(result, path, op);
+          const items = isEach(value) ? value.$each : [value];
+          for (const item of items) {
+            if (op === '$push' || !array.some(existing => isEqual(existing, item))) {
+              array.push(item);
+            }
+          }
+          break;
+        }
+        case '$pull': {
+          const current = getPath(result, path);
+          if (current === undefined) break;
+          if (!Array.isArray(current)) {
+            throw new Error(`Cannot apply $pull to non-array field ${path}`);
+          }
+          setPath(result, path, current.filter(element => !matchesPullCondition(element, value)));
+          break;
+        }
+        case '$rename': {
+          if (typeof value !== 'string' || PROTECTED_FIELDS.includes(value.split('.')[0])) {
+            throw new Error(`Invalid $rename target for ${path}`);
+          }
+          const current = getPath(result, path);
+          if (current !== undefined) {
+            unsetPath(result, path);
+            setPath(result, value, current);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/** Starting document for an upsert: the filter's plain equality fields */
+export function createUpsertDocument(filter: QueryFilter, update: UpdateSpec): Partial<Document> {
+  if (!isOperatorUpdate(update)) {
+    return deepMerge(filter, update);
+  }
+
+  const base: any = {};
+  for (const [key, value] of Object.entries(filter)) {
+    const isCondition = typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      Object.keys(value).some(k => k.startsWith('$'));
+    if (!key.startsWith('$') && !isCondition) {
+      setPath(base, key, value);
+    }
+  }
+
+  return applyUpdateOperators(base, update, true);
+}
+
+function isEach(value: any): value is { $each: any[] } {
+  if (typeof value !== 'object' || value === null || !('$each' in value)) {
+    return false;
+  }
+  if (!Array.isArray(value.$each)) {
+    throw new Error('$each requires an array');
+  }
+  return true;
+}
+
+/** $pull removes elements equal to the value, or matching it as a condition */
+function matchesPullCondition(element: any, condition: any): boolean {
+  const isPlainObject = typeof condition === 'object' && condition !== null &&
+    !Array.isArray(condition) && !(condition instanceof RegExp);
+  const isCondition = isPlainObject && Object.keys(condition).some(key => key.startsWith('$'));
+
+  if (isPlainObject && !isCondition) {
+    return typeof element === 'object' && element !== null && matchesFilter(element, condition);
+  }
+  return matchesFilter({ value: element } as any, { value: condition });
+}
+
+function getArrayPath(doc: any, path: string, op: string): any[] {
+  const current = getPath(doc, path);
+  if (current === undefined) {
+    const array: any[] = [];
+    setPath(doc, path, array);
+    return array;
+  }
+  if (!Array.isArray(current)) {
+    throw new Error(`Cannot apply ${op} to non-array field ${path}`);
+  }
+  return current;
+}
+
+function getPath(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], obj);
+}
+
+function setPath(obj: any, path: string, value: any): void {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(obj: any, path: string): void {
+  const keys = path.split('.');
+  const parent = keys.length === 1 ? obj : getPath(obj, keys.slice(0, -1).join('.'));
+  if (typeof parent === 'object' && parent !== null) {
+    if (Array.isArray(parent)) {
+      // Like MongoDB, unsetting an array element leaves a null in its place
+      parent[Number(keys[keys.length - 1])] = null;
+    } else {
+      delete parent[keys[keys.length - 1]];
+    }
+  }
+}
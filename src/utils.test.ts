@@ -0,0 +1,167 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  applyFindOptions,
+  decodeDocumentParts,
+  decodePart,
+  encodeDocumentParts,
+  encodeParts,
+  isExpired,
+  joinParts,
+  matchesFilter,
+  parseDuration,
+} from './utils';
+import { Document } from './types';
+
+describe('message parts', () => {
+  const decodeAll = (messages: string[]) => messages.map(message => decodePart(message, 'TDB:PART:')!);
+
+  it('keeps a document that fits in one message whole', () => {
+    expect(encodeDocumentParts({ _id: 'a', _table: 'users' }, 'TDB:', 100)).toEqual(['TDB:{"_id":"a","_table":"users"}']);
+  });
+
+  it('splits a large document into parts within the limit and joins them back', () => {
+    const doc = { _id: 'a', _table: 'notes', text: 'lorem ipsum dolor sit amet 😀 '.repeat(40) };
+
+    const messages = encodeDocumentParts(doc, 'TDB:', 200);
+
+    expect(messages.length).toBeGreaterThan(5);
+    expect(messages.every(message => message.length <= 200)).toBe(true);
+    expect(messages[0]).toMatch(new RegExp(`^TDB:PART:1/${messages.length}:"a"\\n`));
+    expect(decodeDocumentParts(decodeAll(messages).reverse())).toEqual(doc);
+  });
+
+  it('never ends a part on whitespace or half a surrogate pair', () => {
+    const payload = `${'a '.repeat(100)}${'😀'.repeat(100)}`;
+
+    const chunks = decodeAll(encodeParts(payload, 'x', 'TDB:PART:', 50)).map(part => part.chunk);
+
+    expect(chunks.join('')).toBe(payload);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk).not.toMatch(/\s$/);
+      expect(/[\ud800-\udbff]$/.test(chunk)).toBe(false);
+    }
+  });
+
+  it('refuses incomplete or mixed parts', () => {
+    const parts = decodeAll(encodeParts('x'.repeat(100), 'a', 'TDB:PART:', 60));
+    const others = decodeAll(encodeParts('y'.repeat(100), 'b', 'TDB:PART:', 60));
+
+    expect(joinParts(parts.slice(1))).toBeNull();
+    expect(joinParts([parts[0], ...others.slice(1)])).toBeNull();
+    expect(joinParts([])).toBeNull();
+    expect(joinParts([...parts].reverse())).toBe('x'.repeat(100));
+    expect(decodePart('TDB:PART:1/2:a\nchunk', 'TDB:PART:')).toBeNull();
+    expect(decodePart('TDB:PART:1/2:"a"', 'TDB:PART:')).toBeNull();
+  });
+
+  it('rejects a limit too small for the part header', () => {
+    expect(() => encodeParts('x'.repeat(100), 'a', 'TDB:PART:', 20)).toThrow('too small to split document a');
+  });
+});
+
+describe('find options', () => {
+  const users: Document[] = [
+    { _id: 'a', _table: 'users', name: 'Ann', age: 30, address: { city: 'Paris' } },
+    { _id: 'b', _table: 'users', name: 'Bob', age: 20, address: { city: 'London' } },
+    { _id: 'c', _table: 'users', name: 'Cy', age: 30, address: { city: 'Berlin' } },
+    { _id: 'd', _table: 'users', name: 'Di' },
+  ];
+  const ids = (docs: Document[]) => docs.map(doc => doc._id);
+
+  it('sorts by several fields and dotted paths, missing values first', () => {
+    expect(ids(applyFindOptions(users, { sort: { age: -1, 'address.city': 1 } }))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(applyFindOptions(users, { sort: { age: 1 } }))).toEqual(['d', 'b', 'a', 'c']);
+  });
+
+  it('skips and limits after sorting', () => {
+    expect(ids(applyFindOptions(users, { sort: { name: -1 }, skip: 1, limit: 2 }))).toEqual(['c', 'b']);
+    expect(ids(applyFindOptions(users, { skip: 3 }))).toEqual(['d']);
+    expect(applyFindOptions(users, { limit: 0 })).toEqual([]);
+  });
+
+  it('includes or excludes fields, keeping _id and _table unless excluded', () => {
+    const [ann] = users;
+
+    expect(applyFindOptions([ann], { projection: { name: 1, 'address.city': 1 } })).toEqual([
+      { _id: 'a', _table: 'users', name: 'Ann', address: { city: 'Paris' } },
+    ]);
+    expect(applyFindOptions([ann], { projection: { address: 0, _table: 0 } })).toEqual([{ _id: 'a', name: 'Ann', age: 30 }]);
+    expect(() => applyFindOptions([ann], { projection: { name: 1, age: 0 } })).toThrow('cannot mix');
+  });
+});
+
+describe('query operators', () => {
+  const doc: Document = {
+    _id: 'a',
+    _table: 'users',
+    name: 'Ann',
+    age: 30,
+    tags: ['admin', 'staff'],
+    scores: [40, 85],
+    orders: [{ item: 'book', qty: 2 }, { item: 'pen', qty: 10 }],
+    address: { city: 'Paris' },
+    nickname: null,
+  };
+  const matches = (filter: any) => matchesFilter(doc, filter);
+
+  it('compares values and matches any element of an array', () => {
+    expect(matches({ age: { $gt: 20, $lte: 30 } })).toBe(true);
+    expect(matches({ age: { $lt: 30 } })).toBe(false);
+    expect(matches({ age: { $gt: '20' } })).toBe(false);
+    expect(matches({ tags: 'admin', scores: { $gt: 80 } })).toBe(true);
+    expect(matches({ tags: { $ne: 'admin' } })).toBe(false);
+    expect(matches({ 'orders.item': 'pen', 'address.city': 'Paris' })).toBe(true);
+  });
+
+  it('supports the logical operators at the top level and $not on a field', () => {
+    expect(matches({ $or: [{ age: 1 }, { name: 'Ann' }] })).toBe(true);
+    expect(matches({ $and: [{ age: 30 }, { name: 'Bob' }] })).toBe(false);
+    expect(matches({ $nor: [{ age: 1 }, { name: 'Bob' }] })).toBe(true);
+    expect(matches({ name: { $not: /^B/ } })).toBe(true);
+    expect(matches({ age: { $not: { $gte: 18 } } })).toBe(false);
+  });
+
+  it('supports the list, array, existence, type and pattern operators', () => {
+    expect(matches({ name: { $in: ['Bob', /^A/] } })).toBe(true);
+    expect(matches({ tags: { $nin: ['guest'] } })).toBe(true);
+    expect(matches({ tags: { $all: ['staff', 'admin'] }, scores: { $size: 2 } })).toBe(true);
+    expect(matches({ orders: { $elemMatch: { item: 'pen', qty: { $gte: 5 } } } })).toBe(true);
+    expect(matches({ scores: { $elemMatch: { $gt: 50, $lt: 60 } } })).toBe(false);
+    expect(matches({ nickname: { $exists: false }, address: { $exists: true } })).toBe(true);
+    expect(matches({ age: { $type: 'number' }, tags: { $type: 'array' } })).toBe(true);
+    expect(matches({ name: { $regex: '^an', $options: 'i' } })).toBe(true);
+  });
+
+  it('throws on unknown operators and malformed arguments', () => {
+    expect(() => matches({ $where: 'true' })).toThrow('Unknown query operator: $where');
+    expect(() => matches({ age: { $near: 1 } })).toThrow('Unknown query operator: $near');
+    expect(() => matches({ age: { $gt: 1, value: 2 } })).toThrow('Cannot mix query operators and fields');
+    expect(() => matches({ $or: [] })).toThrow('$or requires a non-empty array');
+    expect(() => matches({ name: { $in: 'Ann' } })).toThrow('$in requires an array');
+    expect(() => matches({ name: { $options: 'i' } })).toThrow('$options requires $regex');
+    expect(() => matches({ age: { $type: 'decimal' } })).toThrow('Unknown $type: decimal');
+  });
+});
+
+describe('expiry', () => {
+  it('parses durations as ms or with a unit', () => {
+    expect(parseDuration(1500)).toBe(1500);
+    expect(parseDuration('30s')).toBe(30000);
+    expect(parseDuration(' 1.5h ')).toBe(90 * 60 * 1000);
+    expect(parseDuration('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+    for (const duration of [0, -1, Infinity, '', '10', '0m', '1y']) {
+      expect(() => parseDuration(duration)).toThrow('Invalid duration');
+    }
+  });
+
+  it('reads expireAt as ms or a date string, ignoring anything else', () => {
+    const now = Date.parse('2024-06-01T00:00:00Z');
+    const doc = (expireAt: any): Document => ({ _id: 'a', _table: 't', expireAt });
+
+    expect(isExpired(doc(now), now)).toBe(true);
+    expect(isExpired(doc(now + 1), now)).toBe(false);
+    expect(isExpired(doc('2024-05-31T23:59:59Z'), now)).toBe(true);
+    expect(isExpired(doc('not a date'), now)).toBe(false);
+    expect(isExpired({ _id: 'a', _table: 't' }, now)).toBe(false);
+  });
+});
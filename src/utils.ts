@@ -1,93 +1,596 @@
-import { Document, QueryFilter } from './types';
+import { Document, QueryFilter, MessagePart, FindOptions, SortSpec, Projection } from './types';
+import type { PayloadCodec } from './PayloadCodec';
 
-export function encodeDocument(doc: Document, prefix: string = "TDB:"): string {
-  const json = JSON.stringify(doc);
-  return `${prefix}${json}`;
+export function encodeDocument(doc: Document, prefix: string = "TDB:", codec?: PayloadCodec): string {
+  return `${prefix}${encodePayload(doc, codec)}`;
 }
 
-export function decodeDocument(messageText: string, prefix: string = "TDB:"): Document | null {
+export function decodeDocument(messageText: string, prefix: string = "TDB:", codec?: PayloadCodec): Document | null {
   if (!messageText.startsWith(prefix)) {
     return null;
   }
   
+  return decodePayload(messageText.substring(prefix.length), codec);
+}
+
+/** Message text after the prefix: plain JSON unless a codec compresses or encrypts it */
+export function encodePayload(doc: Document, codec?: PayloadCodec): string {
+  return codec ? codec.encode(doc) : JSON.stringify(doc);
+}
+
+/** Reverse of encodePayload. Returns null for malformed or tampered payloads. */
+export function decodePayload(payload: string, codec?: PayloadCodec): Document | null {
   try {
-    const json = messageText.substring(prefix.length);
-    return JSON.parse(json);
+    return codec ? codec.decode(payload) : JSON.parse(payload);
   } catch (error) {
     return null;
   }
 }
 
+/** Encode a document into one or more messages of at most maxLength characters */
+export function encodeDocumentParts(
+  doc: Document,
+  prefix: string = "TDB:",
+  maxLength: number = 4096,
+  codec?: PayloadCodec
+): string[] {
+  const payload = encodePayload(doc, codec);
+  if (prefix.length + payload.length <= maxLength) {
+    return [`${prefix}${payload}`];
+  }
+  return encodeParts(payload, doc._id, `${prefix}PART:`, maxLength);
+}
+
+/** Reassemble a document from all of its parts */
+export function decodeDocumentParts(parts: MessagePart[], codec?: PayloadCodec): Document | null {
+  const payload = joinParts(parts);
+  if (payload === null) {
+    return null;
+  }
+
+  return decodePayload(payload, codec);
+}
+
+/**
+ * Split a payload into linked messages: `{partPrefix}{index}/{total}:{json id}\n{chunk}`.
+ * Chunks never end in whitespace (Telegram trims it) or split a surrogate pair.
+ */
+export function encodeParts(
+  payload: string,
+  id: string,
+  partPrefix: string,
+  maxLength: number
+): string[] {
+  const header = (index: number, total: number) =>
+    `${partPrefix}${index}/${total}:${JSON.stringify(id)}\n`;
+
+  let total = 1;
+  for (;;) {
+    const capacity = maxLength - header(total, total).length;
+    if (capacity < 16) {
+      throw new Error(`Message limit of ${maxLength} characters is too small to split document ${id}`);
+    }
+
+    const chunks: string[] = [];
+    let pos = 0;
+    while (pos < payload.length) {
+      let end = Math.min(pos + capacity, payload.length);
+      while (end < payload.length && end - pos > 1 && !isSafeChunkEnd(payload, end)) {
+        end--;
+      }
+      chunks.push(payload.substring(pos, end));
+      pos = end;
+    }
+
+    if (chunks.length > total) {
+      total = chunks.length;
+      continue;
+    }
+    return chunks.map((chunk, i) => `${header(i + 1, chunks.length)}${chunk}`);
+  }
+}
+
+/** Parse a message produced by encodeParts */
+export function decodePart(messageText: string, partPrefix: string): MessagePart | null {
+  if (!messageText.startsWith(partPrefix)) {
+    return null;
+  }
+
+  const newline = messageText.indexOf('\n');
+  if (newline === -1) {
+    return null;
+  }
+
+  const match = /^(\d+)\/(\d+):(.*)$/.exec(messageText.substring(partPrefix.length, newline));
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const id = JSON.parse(match[3]);
+    if (typeof id !== 'string') {
+      return null;
+    }
+    return {
+      id,
+      index: parseInt(match[1], 10),
+      total: parseInt(match[2], 10),
+      chunk: messageText.substring(newline + 1),
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/** Join parts back into the original payload. Returns null if any part is missing. */
+export function joinParts(parts: MessagePart[]): string | null {
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const total = parts[0].total;
+  const ordered: string[] = new Array(total);
+  for (const part of parts) {
+    if (part.total !== total || part.id !== parts[0].id || part.index < 1 || part.index > total) {
+      return null;
+    }
+    ordered[part.index - 1] = part.chunk;
+  }
+
+  for (let i = 0; i < total; i++) {
+    if (ordered[i] === undefined) {
+      return null;
+    }
+  }
+
+  return ordered.join('');
+}
+
+function isSafeChunkEnd(payload: string, end: number): boolean {
+  const last = payload.charCodeAt(end - 1);
+  if (last >= 0xd800 && last <= 0xdbff) {
+    return false;
+  }
+  return !/\s/.test(payload[end - 1]);
+}
+
+/**
+ * Test a document against a query filter. Supports top-level `$and`/`$or`/`$nor`,
+ * field operators (see matchesOperators) and dotted paths. Array fields match
+ * when the array itself or any of its elements matches. Throws on unknown operators.
+ */
 export function matchesFilter(doc: Document, filter: QueryFilter): boolean {
   for (const [key, value] of Object.entries(filter)) {
-    if (key === '_id' && doc._id !== value) {
-      return false;
+    switch (key) {
+      case '$and':
+        if (!getFilterList(key, value).every(sub => matchesFilter(doc, sub))) return false;
+        break;
+      case '$or':
+        if (!getFilterList(key, value).some(sub => matchesFilter(doc, sub))) return false;
+        break;
+      case '$nor':
+        if (getFilterList(key, value).some(sub => matchesFilter(doc, sub))) return false;
+        break;
+      default:
+        if (key.startsWith('$')) {
+          throw new Error(`Unknown query operator: ${key}`);
+        }
+        if (!matchesCondition(getNestedValue(doc, key), value)) return false;
     }
-    
-    const docValue = getNestedValue(doc, key);
-    
-    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      if (!matchesOperators(docValue, value)) {
-        return false;
-      }
-    } else if (Array.isArray(value)) {
-      if (!value.includes(docValue)) {
-        return false;
+  }
+
+  return true;
+}
+
+function getFilterList(op: string, value: any): QueryFilter[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${op} requires a non-empty array of filters`);
+  }
+  return value;
+}
+
+function matchesCondition(docValue: any, condition: any): boolean {
+  if (condition instanceof RegExp) {
+    return matchesValue(docValue, value => typeof value === 'string' && condition.test(value));
+  }
+  if (isOperatorObject(condition)) {
+    return matchesOperators(docValue, condition);
+  }
+  if (Array.isArray(condition)) {
+    return isEqual(docValue, condition) || condition.some(item => isEqual(item, docValue));
+  }
+  return matchesValue(docValue, value => isEqual(value, condition));
+}
+
+/** True if the value itself, or any element of an array value, passes */
+function matchesValue(docValue: any, predicate: (value: any) => boolean): boolean {
+  if (predicate(docValue)) {
+    return true;
+  }
+  return Array.isArray(docValue) && docValue.some(predicate);
+}
+
+function isOperatorObject(value: any): boolean {
+  if (!isObject(value) || value instanceof RegExp || value instanceof Date) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+  const operators = keys.filter(key => key.startsWith('$'));
+  if (operators.length > 0 && operators.length < keys.length) {
+    throw new Error(`Cannot mix query operators and fields: ${keys.join(', ')}`);
+  }
+  return operators.length > 0;
+}
+
+/** Resolve a dotted path. Non-numeric keys applied to an array collect the key from every element. */
+export function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => {
+    if (Array.isArray(current) && !/^\d+$/.test(key)) {
+      const values = current
+        .map(item => item?.[key])
+        .filter(value => value !== undefined)
+        .flat();
+      return values.length > 0 ? values : undefined;
+    }
+    return current?.[key];
+  }, obj);
+}
+
+/** Apply sort, skip, limit and projection to query results */
+export function applyFindOptions(docs: Document[], options: FindOptions = {}): Document[] {
+  let results = options.sort ? sortDocuments(docs, options.sort) : docs;
+
+  const skip = options.skip ?? 0;
+  if (skip > 0 || options.limit !== undefined) {
+    results = results.slice(skip, options.limit !== undefined ? skip + options.limit : undefined);
+  }
+
+  if (options.projection) {
+    const projection = options.projection;
+    results = results.map(doc => projectDocument(doc, projection));
+  }
+
+  return results;
+}
+
+/** Stable sort by one or more fields (dotted paths allowed); 1 ascending, -1 descending */
+export function sortDocuments(docs: Document[], sort: SortSpec): Document[] {
+  const fields = Object.entries(sort);
+  return [...docs].sort((a, b) => {
+    for (const [field, direction] of fields) {
+      const result = compareValues(getNestedValue(a, field), getNestedValue(b, field));
+      if (result !== 0) {
+        return direction === -1 ? -result : result;
       }
-    } else {
-      if (docValue !== value) {
-        return false;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Pick (`{ name: 1 }`) or omit (`{ password: 0 }`) fields. `_id` and `_table`
+ * are kept unless explicitly excluded. Include and exclude can't be mixed.
+ */
+export function projectDocument(doc: Document, projection: Projection): Document {
+  const entries = Object.entries(projection);
+  const included = entries.filter(([field, value]) => value && field !== '_id' && field !== '_table');
+  const excluded = entries.filter(([field, value]) => !value && field !== '_id' && field !== '_table');
+
+  if (included.length > 0 && excluded.length > 0) {
+    throw new Error('Projection cannot mix included and excluded fields');
+  }
+
+  let result: any;
+  if (included.length > 0) {
+    result = {};
+    for (const [field] of included) {
+      const value = getNestedValue(doc, field);
+      if (value !== undefined) {
+        setNestedValue(result, field, value);
       }
     }
+    result._id = doc._id;
+    result._table = doc._table;
+  } else {
+    result = JSON.parse(JSON.stringify(doc));
+    for (const [field] of excluded) {
+      deleteNestedValue(result, field);
+    }
   }
-  
-  return true;
+
+  for (const field of ['_id', '_table']) {
+    if (field in projection && !projection[field]) {
+      delete result[field];
+    }
+  }
+
+  return result;
 }
 
-function getNestedValue(obj: any, path: string): any {
-  return path.split('.').reduce((current, key) => current?.[key], obj);
+/** Type order for sorting: null/undefined < numbers < strings < objects < arrays < booleans < dates */
+export function compareValues(a: any, b: any): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === 'object' && a !== null) {
+    return compareValues(JSON.stringify(a), JSON.stringify(b));
+  }
+  if (a === b || a == null) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+function typeRank(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number') return 1;
+  if (typeof value === 'string') return 2;
+  if (value instanceof Date) return 6;
+  if (Array.isArray(value)) return 4;
+  if (typeof value === 'object') return 3;
+  if (typeof value === 'boolean') return 5;
+  return 7;
+}
+
+function setNestedValue(obj: any, path: string, value: any): void {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function deleteNestedValue(obj: any, path: string): void {
+  const keys = path.split('.');
+  const parent = keys.length === 1 ? obj : getNestedValue(obj, keys.slice(0, -1).join('.'));
+  if (parent && typeof parent === 'object') {
+    delete parent[keys[keys.length - 1]];
+  }
 }
 
 function matchesOperators(docValue: any, operators: any): boolean {
-  for (const [op, opValue] of Object.entries(operators)) {
+  for (const [op, opValue] of Object.entries(operators) as [string, any][]) {
     switch (op) {
+      case '$eq':
+        if (!matchesValue(docValue, value => isEqual(value, opValue))) return false;
+        break;
+      case '$ne':
+        if (matchesValue(docValue, value => isEqual(value, opValue))) return false;
+        break;
       case '$gt':
-        if (!(docValue > (opValue as any))) return false;
+        if (!matchesValue(docValue, value => (compareOrdered(value, opValue) ?? 0) > 0)) return false;
         break;
       case '$gte':
-        if (!(docValue >= (opValue as any))) return false;
+        if (!matchesValue(docValue, value => (compareOrdered(value, opValue) ?? -1) >= 0)) return false;
         break;
       case '$lt':
-        if (!(docValue < (opValue as any))) return false;
+        if (!matchesValue(docValue, value => (compareOrdered(value, opValue) ?? 0) < 0)) return false;
         break;
       case '$lte':
-        if (!(docValue <= (opValue as any))) return false;
-        break;
-      case '$ne':
-        if (docValue === (opValue as any)) return false;
+        if (!matchesValue(docValue, value => (compareOrdered(value, opValue) ?? 1) <= 0)) return false;
         break;
       case '$in':
-        if (!Array.isArray(opValue) || !opValue.includes(docValue)) return false;
+        if (!matchesValue(docValue, value => inList(op, opValue, value))) return false;
         break;
       case '$nin':
-        if (Array.isArray(opValue) && opValue.includes(docValue)) return false;
+        if (matchesValue(docValue, value => inList(op, opValue, value))) return false;
+        break;
+      case '$regex': {
+        const regex = toRegExp(opValue, operators.$options);
+        if (!matchesValue(docValue, value => typeof value === 'string' && regex.test(value))) return false;
         break;
-      case '$regex':
-        if (typeof docValue !== 'string') return false;
-        const regex = new RegExp(opValue as string);
-        if (!regex.test(docValue)) return false;
+      }
+      case '$options':
+        if (!('$regex' in operators)) {
+          throw new Error('$options requires $regex');
+        }
         break;
-      case '$exists':
+      case '$exists': {
         const exists = docValue !== undefined && docValue !== null;
         if (opValue !== exists) return false;
         break;
-      default:
+      }
+      case '$not':
+        if (opValue instanceof RegExp) {
+          if (matchesCondition(docValue, opValue)) return false;
+        } else if (isOperatorObject(opValue)) {
+          if (matchesOperators(docValue, opValue)) return false;
+        } else {
+          throw new Error('$not requires an operator object or a regular expression');
+        }
+        break;
+      case '$all':
+        if (!Array.isArray(opValue)) {
+          throw new Error('$all requires an array');
+        }
+        if (!Array.isArray(docValue)) return false;
+        if (!opValue.every(item => docValue.some((value: any) => isEqual(value, item)))) return false;
+        break;
+      case '$elemMatch':
+        if (!isObject(opValue)) {
+          throw new Error('$elemMatch requires an object');
+        }
+        if (!Array.isArray(docValue)) return false;
+        if (!docValue.some((element: any) => isOperatorObject(opValue)
+          ? matchesOperators(element, opValue)
+          : isObject(element) && matchesFilter(element, opValue)
+        )) return false;
+        break;
+      case '$size':
+        if (typeof opValue !== 'number') {
+          throw new Error('$size requires a number');
+        }
+        if (!Array.isArray(docValue) || docValue.length !== opValue) return false;
+        break;
+      case '$type': {
+        const types: string[] = Array.isArray(opValue) ? opValue : [opValue];
+        if (!matchesValue(docValue, value => types.some(type => isOfType(value, type)))) return false;
         break;
+      }
+      default:
+        throw new Error(`Unknown query operator: ${op}`);
     }
   }
   return true;
 }
 
+/** Compare two values of the same orderable type; null if they can't be ordered */
+function compareOrdered(a: any, b: any): number | null {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (
+    (typeof a === 'number' && typeof b === 'number') ||
+    (typeof a === 'string' && typeof b === 'string')
+  ) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return null;
+}
+
+function inList(op: string, list: any, value: any): boolean {
+  if (!Array.isArray(list)) {
+    throw new Error(`${op} requires an array`);
+  }
+  return list.some(item => item instanceof RegExp
+    ? typeof value === 'string' && item.test(value)
+    : isEqual(value, item)
+  );
+}
+
+function toRegExp(pattern: any, options?: any): RegExp {
+  if (options !== undefined && typeof options !== 'string') {
+    throw new Error('$options must be a string');
+  }
+  if (pattern instanceof RegExp) {
+    return options !== undefined ? new RegExp(pattern.source, options) : pattern;
+  }
+  if (typeof pattern !== 'string') {
+    throw new Error('$regex requires a string or RegExp');
+  }
+  return new RegExp(pattern, options);
+}
+
+const TYPE_CHECKS: { [type: string]: (value: any) => boolean } = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number',
+  boolean: value => typeof value === 'boolean',
+  bool: value => typeof value === 'boolean',
+  object: value => isObject(value),
+  array: value => Array.isArray(value),
+  null: value => value === null,
+};
+
+function isOfType(value: any, type: string): boolean {
+  const check = Object.prototype.hasOwnProperty.call(TYPE_CHECKS, type) ? TYPE_CHECKS[type] : undefined;
+  if (!check) {
+    throw new Error(`Unknown $type: ${type}`);
+  }
+  return check(value);
+}
+
+/**
+ * Order two versions of the same document: the higher `_rev` wins, and equal
+ * revisions with different content are ordered by their content, so every
+ * client picks the same winner. Positive when `a` wins.
+ */
+export function compareVersions(a: Document, b: Document): number {
+  const revA = a._rev ?? 0;
+  const revB = b._rev ?? 0;
+  if (revA !== revB) {
+    return revA - revB;
+  }
+  const keyA = stableStringify(a);
+  const keyB = stableStringify(b);
+  return keyA === keyB ? 0 : keyA > keyB ? 1 : -1;
+}
+
+/** JSON with object keys sorted, so equal documents serialize identically */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Deep equality for JSON-like values */
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => isEqual(a[key], b[key]));
+}
+
+const DURATION_UNITS: { [unit: string]: number } = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Milliseconds in a duration like `90`, `'30s'`, `'15m'`, `'1h'` or `'7d'` */
+export function parseDuration(duration: number | string): number {
+  if (typeof duration === 'number') {
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error(`Invalid duration: ${duration}`);
+    }
+    return duration;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)\s*$/.exec(duration);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid duration: ${duration}`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/** When a document expires, from its `expireAt` (ms since epoch or a date string); null if never */
+export function getExpiry(doc: Document): number | null {
+  const expireAt = doc.expireAt;
+  if (typeof expireAt === 'number') {
+    return expireAt;
+  }
+  if (typeof expireAt === 'string') {
+    const time = Date.parse(expireAt);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+export function isExpired(doc: Document, now: number = Date.now()): boolean {
+  const expiry = getExpiry(doc);
+  return expiry !== null && expiry <= now;
+}
+
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
 }